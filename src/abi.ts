@@ -0,0 +1,399 @@
+import { existsSync, readdirSync, statSync } from "node:fs";
+import path from "node:path";
+import { Abi, AbiEvent, AbiFunction, AbiParameter, DecodeEventLogReturnType, Hex, decodeAbiParameters, decodeErrorResult, decodeEventLog, decodeFunctionData, decodeFunctionResult, encodeFunctionData, parseAbiItem, toEventSelector } from "viem";
+import { abiSignature, bytecodeSize, errorSelectors, eventSelectors, getOutDir, listArtifacts, loadArtifact, methodSelectors } from "./artifacts.js";
+import { PROJECT_ROOT } from "./utils.js";
+import { AbiEntry, AbiIndex, DecodedCall, DecodedLog, DecodedRevert } from "./types.js";
+
+const ERROR_STRING_SELECTOR = "0x08c379a0";
+const PANIC_SELECTOR = "0x4e487b71";
+
+// Solidity panic codes, see https://docs.soliditylang.org/en/latest/control-structures.html#panic-via-assert-and-error-via-require
+const PANIC_REASONS: Record<number, string> = {
+  0x00: "generic compiler panic",
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow or underflow",
+  0x12: "division or modulo by zero",
+  0x21: "invalid enum value",
+  0x22: "invalid storage byte array encoding",
+  0x31: "pop() on an empty array",
+  0x32: "array index out of bounds",
+  0x41: "out of memory",
+  0x51: "call to a zero-initialized internal function"
+};
+
+// Errors every Solidity contract can revert with, whether or not an artifact declares them
+const BUILTIN_ERRORS = [
+  { type: "error", name: "Error", inputs: [{ name: "message", type: "string" }] },
+  { type: "error", name: "Panic", inputs: [{ name: "code", type: "uint256" }] }
+];
+
+let cached: { key: string; index: AbiIndex } | null = null;
+
+function addEntries(target: Map<string, AbiEntry[]>, contract: string, source: string, abi: any[], selectors: Record<string, string>) {
+  for (const [signature, selector] of Object.entries(selectors)) {
+    const item = abi.find(candidate => candidate.type !== "constructor" && abiSignature(candidate) === signature);
+    const entries = target.get(selector) ?? [];
+    // Shared interfaces (ERC20 events, OZ errors) appear in many artifacts; keep one entry per signature
+    if (!entries.some(entry => entry.signature === signature)) {
+      entries.push({ contract, signature, source, item });
+    }
+    target.set(selector, entries);
+  }
+}
+
+// Artifact directories to index: the project's out/, then dependencies built on their own (lib/<dep>/out).
+// forge install doesn't build dependencies, so their ABIs normally come from out/: only the dependency
+// contracts the project's sources import (directly or transitively) are compiled there and get indexed.
+export function abiSources(): Array<{ source: string; outDir: string }> {
+  const sources = [{ source: "out", outDir: getOutDir() }];
+  const libDir = path.join(PROJECT_ROOT, "lib");
+  if (existsSync(libDir)) {
+    for (const entry of readdirSync(libDir, { withFileTypes: true })) {
+      const outDir = path.join(libDir, entry.name, "out");
+      if (entry.isDirectory() && existsSync(outDir)) {
+        sources.push({ source: `lib/${entry.name}`, outDir });
+      }
+    }
+  }
+  return sources;
+}
+
+// "lib/<dep>" or "node_modules/<package>" for dependency sources compiled into the project's out/
+function dependencySource(sourcePath: string | null): string | null {
+  return sourcePath?.match(/^(lib\/[^/]+|node_modules\/(?:@[^/]+\/)?[^/]+)\//)?.[1] ?? null;
+}
+
+// Event, error and function selectors of every compiled artifact, rebuilt when artifacts change
+export function loadAbiIndex(): AbiIndex {
+  const sources = abiSources().map(({ source, outDir }) => ({ source, refs: listArtifacts(outDir) }));
+  const refs = sources.flatMap(source => source.refs);
+  const key = `${sources.map(source => `${source.source}:${source.refs.length}`).join(",")}:` +
+    `${Math.max(0, ...refs.map(ref => statSync(ref.artifactPath).mtimeMs))}`;
+  if (cached?.key === key) {
+    return cached.index;
+  }
+
+  const index: AbiIndex = { events: new Map(), errors: new Map(), functions: new Map(), runtimeSizes: new Map() };
+  addEntries(index.errors, "solidity", "builtin", BUILTIN_ERRORS, errorSelectors(BUILTIN_ERRORS));
+
+  // Project artifacts come first so their names win over identical signatures in dependencies
+  for (const { source, refs: sourceRefs } of sources) {
+    for (const ref of sourceRefs) {
+      let abi: any[];
+      let entrySource = source;
+      try {
+        const artifact = loadArtifact(ref);
+        abi = artifact.abi;
+        if (source === "out") {
+          entrySource = dependencySource(artifact.sourcePath) ?? source;
+        }
+        if (!index.runtimeSizes.has(ref.name)) {
+          index.runtimeSizes.set(ref.name, bytecodeSize(artifact.deployedBytecode));
+        }
+      } catch {
+        continue;
+      }
+      addEntries(index.events, ref.name, entrySource, abi, eventSelectors(abi));
+      addEntries(index.errors, ref.name, entrySource, abi, errorSelectors(abi));
+      addEntries(index.functions, ref.name, entrySource, abi, methodSelectors(abi));
+    }
+  }
+
+  cached = { key, index };
+  return index;
+}
+
+export function indexSize(index: AbiIndex) {
+  const count = (map: Map<string, AbiEntry[]>) => [...map.values()].reduce((total, entries) => total + entries.length, 0);
+  return { functions: count(index.functions), events: count(index.events), errors: count(index.errors) };
+}
+
+// Every indexed function, event and error whose selector or topic starts with the given hex
+export function lookupSelector(index: AbiIndex, selector: string) {
+  const prefix = selector.toLowerCase();
+  const matches = (map: Map<string, AbiEntry[]>) => [...map]
+    .filter(([key]) => key.startsWith(prefix))
+    .flatMap(([key, entries]) => entries.map(entry => ({
+      selector: key,
+      signature: entry.signature,
+      contract: entry.contract,
+      source: entry.source
+    })));
+  return { functions: matches(index.functions), events: matches(index.events), errors: matches(index.errors) };
+}
+
+// Decoded ABI values contain bigints, which JSON.stringify rejects
+export function toJsonValue(value: any): any {
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toJsonValue);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, inner]) => [key, toJsonValue(inner)]));
+  }
+  return value;
+}
+
+type RawLog = {
+  address: string;
+  topics: string[];
+  data: string;
+  logIndex?: string | number | null;
+  blockNumber?: string | number | null;
+  transactionHash?: string | null;
+};
+
+// Decode a log against the index; `fallbackAbi` covers events given by hand that no artifact declares
+export function decodeLog(index: AbiIndex, log: RawLog, fallbackAbi: any[] = []): DecodedLog {
+  const decoded: DecodedLog = {
+    logIndex: log.logIndex === undefined || log.logIndex === null ? null : Number(log.logIndex),
+    blockNumber: log.blockNumber === undefined || log.blockNumber === null ? null : Number(log.blockNumber),
+    transactionHash: log.transactionHash ?? null,
+    address: log.address,
+    contract: null,
+    event: null,
+    signature: null,
+    args: null,
+    topics: log.topics,
+    data: log.data
+  };
+
+  const topic0 = log.topics[0]?.toLowerCase();
+  const fallback = fallbackAbi
+    .filter(item => toEventSelector(item) === topic0)
+    .map(item => ({ contract: null, signature: abiSignature(item), item }));
+
+  const [signatureTopic, ...indexedTopics] = log.topics as Hex[];
+  const topics: [Hex, ...Hex[]] = [signatureTopic, ...indexedTopics];
+
+  for (const entry of [...(index.events.get(topic0) ?? []), ...fallback]) {
+    try {
+      const abi: Abi = [entry.item];
+      const result: DecodeEventLogReturnType<Abi> = decodeEventLog({ abi, data: log.data as Hex, topics });
+      return {
+        ...decoded,
+        contract: entry.contract,
+        event: result.eventName ?? null,
+        signature: entry.signature,
+        args: toJsonValue(result.args)
+      };
+    } catch {
+      // Same topic0 but different indexed layout; try the next candidate
+    }
+  }
+  return decoded;
+}
+
+// Resolve "Transfer", "Transfer(address,address,uint256)" or "Transfer(address indexed from, ...)" to event ABI items
+export function findEvents(index: AbiIndex, event: string): AbiEvent[] | string {
+  const all = [...index.events.values()].flat();
+  if (!event.includes("(")) {
+    const items = all.filter(entry => entry.item.name === event).map(entry => entry.item);
+    return items.length > 0 ? items : `No event named '${event}' in the project or dependency ABIs`;
+  }
+
+  let parsed: AbiEvent;
+  try {
+    parsed = parseAbiItem(`event ${event.trim().replace(/^event\s+/, "")}`) as AbiEvent;
+  } catch (err: any) {
+    return `Invalid event signature '${event}': ${err.shortMessage ?? err.message}`;
+  }
+  // Prefer the artifact's definition, which knows the indexed parameters and their names
+  const known = index.events.get(toEventSelector(parsed))?.map(entry => entry.item);
+  return known && known.length > 0 ? known : [parsed];
+}
+
+// Decode calldata against known function selectors; `prefer` picks between contracts sharing a selector
+export function decodeCalldata(index: AbiIndex, data: string, prefer?: (contract: string) => boolean): DecodedCall | null {
+  const hex = data.toLowerCase() as `0x${string}`;
+  const selector = hex.slice(0, 10);
+  const entries = [...(index.functions.get(selector) ?? [])];
+  if (prefer) {
+    entries.sort((a, b) => Number(prefer(b.contract)) - Number(prefer(a.contract)));
+  }
+
+  for (const entry of entries) {
+    try {
+      const result = decodeFunctionData({ abi: [entry.item], data: hex });
+      return {
+        selector,
+        contract: entry.contract,
+        name: result.functionName,
+        signature: entry.signature,
+        args: toJsonValue(result.args ?? [])
+      };
+    } catch {
+      // Selector collision with a different parameter layout
+    }
+  }
+  return null;
+}
+
+// Decode the return data of a call previously decoded with decodeCalldata
+export function decodeReturnData(index: AbiIndex, call: DecodedCall, data: string): any {
+  const entry = (index.functions.get(call.selector) ?? []).find(candidate => candidate.signature === call.signature);
+  if (!entry) {
+    return null;
+  }
+  try {
+    return toJsonValue(decodeFunctionResult({ abi: [entry.item], functionName: entry.item.name, data: data as `0x${string}` }));
+  } catch {
+    return null;
+  }
+}
+
+// Index just past the parenthesised group opening at `start`
+function closingParen(text: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    depth += text[i] === "(" ? 1 : text[i] === ")" ? -1 : 0;
+    if (depth === 0) {
+      return i + 1;
+    }
+  }
+  throw new Error(`Unbalanced parentheses in '${text}'`);
+}
+
+// Accept cast-style "balanceOf(address)(uint256)" as well as "function balanceOf(address) view returns (uint256)"
+export function parseFunctionSignature(signature: string): AbiFunction {
+  const text = signature.trim().replace(/^function\s+/, "");
+  const open = text.indexOf("(");
+  if (open === -1) {
+    throw new Error(`Invalid function signature '${signature}'`);
+  }
+  const inputsEnd = closingParen(text, open);
+  const rest = text.slice(inputsEnd).trim();
+  const outputs = rest.startsWith("(") ? rest : null;
+  const item = outputs
+    ? `function ${text.slice(0, inputsEnd)} returns ${outputs}`
+    : `function ${text}`;
+  return parseAbiItem(item) as AbiFunction;
+}
+
+// Split "(a,(b,c),[d,e])" or '["a,b","c"]' into top-level elements; quoted elements may contain commas and brackets
+function splitList(value: string): string[] {
+  const inner = value.trim().slice(1, -1).trim();
+  if (!inner) {
+    return [];
+  }
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = "";
+  for (let i = 0; i < inner.length; i++) {
+    const char = inner[i];
+    if (quoted && char === "\\") {
+      current += char + (inner[++i] ?? "");
+      continue;
+    }
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && char === "," && depth === 0) {
+      parts.push(current.trim());
+      current = "";
+      continue;
+    } else if (!quoted) {
+      depth += "([".includes(char) ? 1 : ")]".includes(char) ? -1 : 0;
+    }
+    current += char;
+  }
+  parts.push(current.trim());
+  return parts.map(part => /^"(.*)"$/s.test(part) ? part.slice(1, -1).replace(/\\(.)/g, "$1") : part);
+}
+
+// Convert a CLI-style string argument into the value viem expects for an ABI parameter
+function coerceArg(param: AbiParameter, value: string): unknown {
+  const array = param.type.match(/^(.*)\[\d*\]$/);
+  if (array) {
+    return splitList(value).map(element => coerceArg({ ...param, type: array[1] }, element));
+  }
+  if (param.type === "tuple" && "components" in param) {
+    const elements = splitList(value);
+    return param.components.map((component, i) => coerceArg(component, elements[i] ?? ""));
+  }
+  if (/^u?int\d*$/.test(param.type)) {
+    return BigInt(value);
+  }
+  if (param.type === "bool") {
+    return value === "true";
+  }
+  return value;
+}
+
+// Calldata for a signature and string arguments, as `cast calldata` would build it
+export function encodeCall(signature: string, args: string[]): { item: AbiFunction; data: Hex } {
+  const item = parseFunctionSignature(signature);
+  if (args.length !== item.inputs.length) {
+    throw new Error(`${abiSignature(item)} takes ${item.inputs.length} argument(s), got ${args.length}`);
+  }
+  const values = item.inputs.map((input, i) => coerceArg(input, args[i]));
+  return { item, data: encodeFunctionData({ abi: [item], functionName: item.name, args: values }) };
+}
+
+// Decode return data with the signature's own outputs, else with a matching project function
+export function decodeCallResult(index: AbiIndex, item: AbiFunction, calldata: Hex, data: string): unknown {
+  if (item.outputs.length > 0) {
+    try {
+      return toJsonValue(decodeFunctionResult({ abi: [item], functionName: item.name, data: data as Hex }));
+    } catch {
+      return null;
+    }
+  }
+  const call = decodeCalldata(index, calldata);
+  return call ? decodeReturnData(index, call, data) : null;
+}
+
+// Decode revert data as Error(string), Panic(uint256) or a project custom error
+export function decodeRevert(index: AbiIndex, data: string): DecodedRevert {
+  const hex = (data || "0x").toLowerCase() as `0x${string}`;
+  const selector = hex.slice(0, 10);
+  const base = { data: hex, contract: null, name: null, signature: null, args: null };
+
+  if (hex === "0x") {
+    return { ...base, kind: "empty", reason: "reverted without data (revert(), require without message, or out of gas)" };
+  }
+
+  try {
+    if (selector === ERROR_STRING_SELECTOR) {
+      const [message] = decodeAbiParameters([{ type: "string" }], `0x${hex.slice(10)}`);
+      return { ...base, kind: "error", name: "Error", signature: "Error(string)", args: [message], reason: message };
+    }
+    if (selector === PANIC_SELECTOR) {
+      const [code] = decodeAbiParameters([{ type: "uint256" }], `0x${hex.slice(10)}`);
+      const description = PANIC_REASONS[Number(code)] ?? "unknown panic code";
+      return {
+        ...base,
+        kind: "panic",
+        name: "Panic",
+        signature: "Panic(uint256)",
+        args: [code.toString()],
+        reason: `Panic(0x${code.toString(16).padStart(2, "0")}): ${description}`
+      };
+    }
+  } catch {
+    // Malformed payload; fall through to unknown
+  }
+
+  for (const entry of index.errors.get(selector) ?? []) {
+    try {
+      const result = decodeErrorResult({ abi: [entry.item], data: hex });
+      const args: readonly unknown[] = result.args ?? [];
+      return {
+        ...base,
+        kind: "custom",
+        contract: entry.contract,
+        name: result.errorName,
+        signature: entry.signature,
+        args: toJsonValue(args),
+        reason: `${result.errorName}(${args.map(arg => JSON.stringify(toJsonValue(arg))).join(", ")})`
+      };
+    } catch {
+      // Selector collision with a different parameter layout
+    }
+  }
+
+  return { ...base, kind: "unknown", reason: `unknown error selector ${selector}` };
+}
@@ -0,0 +1,128 @@
+import { readFileSync, readdirSync, existsSync } from "node:fs";
+import path from "node:path";
+import { toEventSelector, toFunctionSelector } from "viem";
+import { PROJECT_ROOT, runForge, parseJsonOutput } from "./utils.js";
+import { ArtifactRef, ContractArtifact } from "./types.js";
+
+// Compiled artifacts directory, honouring `out = "..."` in foundry.toml
+export function getOutDir(): string {
+  try {
+    const toml = readFileSync(path.join(PROJECT_ROOT, "foundry.toml"), "utf8");
+    const match = toml.match(/^\s*out\s*=\s*["']([^"']+)["']/m);
+    if (match) {
+      return path.resolve(PROJECT_ROOT, match[1]);
+    }
+  } catch {
+    // No foundry.toml, use the default layout
+  }
+  return path.join(PROJECT_ROOT, "out");
+}
+
+// List artifacts laid out as <out>/<File>.sol/<Contract>[.<solcVersion>].json
+export function listArtifacts(outDir: string = getOutDir()): ArtifactRef[] {
+  if (!existsSync(outDir)) {
+    return [];
+  }
+
+  const refs: ArtifactRef[] = [];
+  for (const entry of readdirSync(outDir, { withFileTypes: true })) {
+    if (!entry.isDirectory() || entry.name === "build-info") {
+      continue;
+    }
+    for (const file of readdirSync(path.join(outDir, entry.name))) {
+      if (!file.endsWith(".json")) {
+        continue;
+      }
+      refs.push({
+        name: file.split(".")[0],
+        sourceFile: entry.name,
+        artifactPath: path.join(outDir, entry.name, file)
+      });
+    }
+  }
+  return refs;
+}
+
+export function loadArtifact(ref: ArtifactRef): ContractArtifact {
+  const raw = JSON.parse(readFileSync(ref.artifactPath, "utf8"));
+  const metadata = raw.metadata ?? (raw.rawMetadata ? JSON.parse(raw.rawMetadata) : null);
+  const target = metadata?.settings?.compilationTarget;
+
+  return {
+    ...ref,
+    sourcePath: target ? Object.keys(target)[0] : raw.ast?.absolutePath ?? null,
+    abi: raw.abi ?? [],
+    bytecode: raw.bytecode?.object ?? raw.bytecode ?? "0x",
+    deployedBytecode: raw.deployedBytecode?.object ?? raw.deployedBytecode ?? "0x",
+    methodIdentifiers: raw.methodIdentifiers ?? null,
+    storageLayout: raw.storageLayout ?? null,
+    metadata
+  };
+}
+
+// Resolve "Counter", "Counter.sol:Counter" or "src/Counter.sol:Counter" to a single artifact
+export function findArtifact(contract: string, outDir?: string): ContractArtifact | null {
+  const separator = contract.lastIndexOf(":");
+  const name = separator === -1 ? contract : contract.slice(separator + 1);
+  const file = separator === -1 ? null : contract.slice(0, separator);
+
+  const candidates = listArtifacts(outDir)
+    .filter(ref => ref.name === name)
+    .filter(ref => !file || ref.sourceFile === path.basename(file))
+    .map(loadArtifact);
+
+  if (file && candidates.length > 1) {
+    return candidates.find(artifact => artifact.sourcePath === file) ?? candidates[0];
+  }
+  return candidates[0] ?? null;
+}
+
+// Ask forge directly for a field the artifact doesn't carry (e.g. storageLayout without extra_output)
+export async function forgeInspect(contract: string, field: string): Promise<any | null> {
+  const result = await runForge(["inspect", contract, field, "--json"]);
+  if (!result.success) {
+    return null;
+  }
+  return parseJsonOutput(result.stdout) ?? result.stdout.trim();
+}
+
+// Canonical signature, e.g. "transfer(address,uint256)", expanding tuples
+export function abiSignature(item: { name?: string; inputs?: readonly any[] }): string {
+  const formatType = (param: any): string => {
+    if (param.type.startsWith("tuple")) {
+      return `(${(param.components ?? []).map(formatType).join(",")})${param.type.slice("tuple".length)}`;
+    }
+    return param.type;
+  };
+  return `${item.name ?? ""}(${(item.inputs ?? []).map(formatType).join(",")})`;
+}
+
+export function eventSelectors(abi: any[]): Record<string, string> {
+  const selectors: Record<string, string> = {};
+  for (const item of abi.filter(item => item.type === "event")) {
+    selectors[abiSignature(item)] = toEventSelector(abiSignature(item));
+  }
+  return selectors;
+}
+
+export function errorSelectors(abi: any[]): Record<string, string> {
+  const selectors: Record<string, string> = {};
+  for (const item of abi.filter(item => item.type === "error")) {
+    selectors[abiSignature(item)] = toFunctionSelector(abiSignature(item));
+  }
+  return selectors;
+}
+
+export function methodSelectors(abi: any[]): Record<string, string> {
+  const selectors: Record<string, string> = {};
+  for (const item of abi.filter(item => item.type === "function")) {
+    selectors[abiSignature(item)] = toFunctionSelector(abiSignature(item));
+  }
+  return selectors;
+}
+
+// Size in bytes of a hex bytecode string; unlinked library placeholders count as 20 bytes
+export function bytecodeSize(bytecode: string): number {
+  const hex = bytecode.startsWith("0x") ? bytecode.slice(2) : bytecode;
+  return Math.floor(hex.replace(/__\$[0-9a-fA-F]{34}\$__/g, "0".repeat(40)).length / 2);
+}
@@ -0,0 +1,218 @@
+import { readFileSync, writeFileSync, readdirSync, existsSync, mkdirSync } from "node:fs";
+import path from "node:path";
+import { getAddress } from "viem";
+import { MCP_STATE_DIR, PROJECT_ROOT } from "./utils.js";
+import { findArtifact } from "./artifacts.js";
+import { ForgeCounterexample, ForgeTestSuite, RegressionTest, StoredCounterexample } from "./types.js";
+
+export const COUNTEREXAMPLE_DIR = path.join(MCP_STATE_DIR, "counterexamples");
+
+// Only the most recent distinct counterexamples are kept per test
+const MAX_PER_TEST = 10;
+
+// "CounterTest.testFuzz_SetNumber" for test "testFuzz_SetNumber(uint256)" in suite CounterTest
+export function counterexampleId(contract: string, test: string): string {
+  return `${contract}.${test.split("(")[0]}`;
+}
+
+function storePath(id: string): string {
+  return path.join(COUNTEREXAMPLE_DIR, `${id.replace(/[^a-zA-Z0-9_.-]/g, "_")}.json`);
+}
+
+export function loadCounterexamples(id: string): StoredCounterexample[] {
+  const file = storePath(id);
+  return existsSync(file) ? JSON.parse(readFileSync(file, "utf8")) : [];
+}
+
+export function listCounterexampleIds(): string[] {
+  if (!existsSync(COUNTEREXAMPLE_DIR)) {
+    return [];
+  }
+  return readdirSync(COUNTEREXAMPLE_DIR)
+    .filter(file => file.endsWith(".json"))
+    .map(file => file.slice(0, -".json".length))
+    .sort();
+}
+
+function fingerprint(counterexample: ForgeCounterexample): string {
+  return counterexample.calls.map(call => `${call.sender}:${call.target}:${call.calldata}`).join("|");
+}
+
+// Persist the counterexamples of failed fuzz/invariant tests; returns the IDs that were updated
+export function recordCounterexamples(suites: ForgeTestSuite[]): string[] {
+  const recorded: string[] = [];
+
+  for (const suite of suites) {
+    for (const test of suite.tests) {
+      if (test.status !== "failure" || !test.counterexample) {
+        continue;
+      }
+
+      const id = counterexampleId(suite.contract, test.name);
+      const existing = loadCounterexamples(id);
+      if (existing.some(entry => fingerprint(entry.counterexample) === fingerprint(test.counterexample!))) {
+        continue;
+      }
+
+      const entry: StoredCounterexample = {
+        id,
+        suiteId: suite.id,
+        suitePath: suite.path,
+        contract: suite.contract,
+        test: test.name,
+        kind: test.kind,
+        reason: test.reason,
+        counterexample: test.counterexample,
+        recordedAt: new Date().toISOString()
+      };
+
+      mkdirSync(COUNTEREXAMPLE_DIR, { recursive: true });
+      writeFileSync(storePath(id), JSON.stringify([entry, ...existing].slice(0, MAX_PER_TEST), null, 2));
+      recorded.push(id);
+    }
+  }
+
+  return recorded;
+}
+
+// Split a parameter list on top-level commas only
+function splitParams(list: string): string[] {
+  const params: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of list) {
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    if (char === "," && depth === 0) {
+      params.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) {
+    params.push(current.trim());
+  }
+  return params;
+}
+
+function isDynamic(type: string): boolean {
+  return type === "string" || type === "bytes" || type.endsWith("]");
+}
+
+// Call the failing function on `target` with the counterexample's exact calldata
+function singleCallBody(target: string, signature: string, calldata: string): string[] {
+  const name = signature.split("(")[0];
+  const params = splitParams(signature.slice(signature.indexOf("(") + 1, signature.lastIndexOf(")")));
+  const encodedArgs = calldata.slice(10);
+
+  // Tuple parameters can't be declared without the struct type, so fall back to a raw call
+  if (params.some(param => param.includes("("))) {
+    return [
+      `(bool ok, bytes memory ret) = address(${target}).call(hex"${calldata.slice(2)}");`,
+      `if (!ok) {`,
+      `    assembly {`,
+      `        revert(add(ret, 32), mload(ret))`,
+      `    }`,
+      `}`
+    ];
+  }
+
+  if (params.length === 0) {
+    return [`${target}.${name}();`];
+  }
+
+  const names = params.map((_, index) => `arg${index}`);
+  const declarations = params.map((type, index) => `${type}${isDynamic(type) ? " memory" : ""} ${names[index]}`);
+  return [
+    `(${declarations.join(", ")}) = abi.decode(hex"${encodedArgs}", (${params.join(", ")}));`,
+    `${target}.${name}(${names.join(", ")});`
+  ];
+}
+
+// Address literals go through getAddress since Solidity rejects non-checksummed ones
+function sequenceBody(entry: StoredCounterexample): string[] {
+  const lines: string[] = [
+    "// Replay the call sequence found by the invariant fuzzer, then check the invariant.",
+    "// Reverting calls are ignored, as with `fail_on_revert = false`."
+  ];
+  entry.counterexample.calls.forEach((call, index) => {
+    lines.push(`// ${call.contractName ?? "target"}.${call.signature ?? call.functionName ?? "call"}${call.args ? ` (${call.args})` : ""}`);
+    if (call.sender) {
+      lines.push(`vm.prank(${getAddress(call.sender)});`);
+    }
+    lines.push(`(bool ok${index}, ) = address(${getAddress(call.target ?? "0x0000000000000000000000000000000000000000")}).call(hex"${call.calldata.slice(2)}");`);
+    lines.push(`ok${index};`);
+  });
+  lines.push(`${entry.test.split("(")[0]}();`);
+  return lines;
+}
+
+function hasSetUp(contract: string): boolean {
+  const abi = findArtifact(contract)?.abi;
+  // Without a build to check, assume the usual setUp() is there
+  return !abi || abi.some(item => item.type === "function" && item.name === "setUp");
+}
+
+// Solidity source for a regression contract that replays the counterexample.
+// A single failing call runs against a fresh instance of the suite, so only its setUp() is reused;
+// invariant sequences target addresses deployed by the suite's setUp() and must inherit the suite.
+export function generateRegressionTest(
+  entry: StoredCounterexample,
+  contractName: string,
+  testName: string,
+  outputFile: string
+): RegressionTest {
+  let importPath = path
+    .relative(path.dirname(path.resolve(PROJECT_ROOT, outputFile)), path.resolve(PROJECT_ROOT, entry.suitePath))
+    .split(path.sep)
+    .join("/");
+  if (!importPath.startsWith(".")) {
+    importPath = `./${importPath}`;
+  }
+
+  const header = [
+    "// SPDX-License-Identifier: UNLICENSED",
+    "pragma solidity >=0.8.0;",
+    "",
+    `import {${entry.contract}} from "${importPath}";`,
+    "",
+    `/// Regression test for ${entry.contract}.${entry.test}, recorded ${entry.recordedAt}`,
+    ...(entry.reason ? [`/// Original failure: ${entry.reason.replace(/\s+/g, " ")}`] : [])
+  ];
+
+  if (entry.counterexample.type === "single") {
+    const source = [
+      ...header,
+      `contract ${contractName} {`,
+      `    ${entry.contract} internal suite;`,
+      "",
+      "    function setUp() public {",
+      `        suite = new ${entry.contract}();`,
+      ...(hasSetUp(entry.contract) ? ["        suite.setUp();"] : []),
+      "    }",
+      "",
+      `    function ${testName}() public {`,
+      ...singleCallBody("suite", entry.test, entry.counterexample.calls[0].calldata).map(line => `        ${line}`),
+      "    }",
+      "}",
+      ""
+    ].join("\n");
+    return { source, inheritsSuite: false, note: null };
+  }
+
+  const note =
+    `${contractName} inherits ${entry.contract} so the replayed calls reach the contracts its setUp() deployed ` +
+    `at the recorded addresses; the suite's own tests and invariants also run in it unless filtered with --match-test ${testName}.`;
+  const source = [
+    ...header,
+    `/// NOTE: ${note}`,
+    `contract ${contractName} is ${entry.contract} {`,
+    `    function ${testName}() public {`,
+    ...sequenceBody(entry).map(line => `        ${line}`),
+    "    }",
+    "}",
+    ""
+  ].join("\n");
+  return { source, inheritsSuite: true, note };
+}
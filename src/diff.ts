@@ -0,0 +1,27 @@
+import { DiffHunk } from "./types.js";
+
+const NO_NEWLINE_MARKER = "\\ No newline at end of file";
+
+export function formatUnifiedDiff(file: string, hunks: DiffHunk[]): string {
+  if (hunks.length === 0) {
+    return "";
+  }
+  const body = hunks.map(hunk =>
+    [`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`, ...hunk.lines].join("\n")
+  );
+  return [`--- a/${file}`, `+++ b/${file}`, ...body].join("\n") + "\n";
+}
+
+// Add the "no newline" marker after the last old line when the original text doesn't end with one
+export function markMissingNewline(hunks: DiffHunk[], oldText: string): DiffHunk[] {
+  const last = hunks[hunks.length - 1];
+  if (!last || oldText === "" || oldText.endsWith("\n")) {
+    return hunks;
+  }
+  if (last.oldStart + last.oldLines - 1 !== oldText.split("\n").length) {
+    return hunks;
+  }
+  const position = last.lines.length - [...last.lines].reverse().findIndex(line => !line.startsWith("+"));
+  const lines = [...last.lines.slice(0, position), NO_NEWLINE_MARKER, ...last.lines.slice(position)];
+  return [...hunks.slice(0, -1), { ...last, lines }];
+}
@@ -0,0 +1,176 @@
+import { formatEther, hexToBigInt, numberToHex } from "viem";
+
+// Minimal JSON-RPC client over fetch, used instead of spawning `cast` for plain node queries
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+// cast falls back to ETH_RPC_URL and then a local node; do the same
+export const DEFAULT_RPC_URL = process.env.ETH_RPC_URL || "http://localhost:8545";
+
+export type BlockTag = "latest" | "earliest" | "pending" | "safe" | "finalized";
+
+export interface RpcRequest {
+  method: string;
+  params?: any[];
+}
+
+export interface RpcResponse<T = any> {
+  success: boolean;
+  result: T;
+  error?: string;
+  code?: number;
+  data?: any;
+}
+
+export interface RpcOptions {
+  timeoutMs?: number;
+}
+
+export class RpcError extends Error {
+  constructor(message: string, public code?: number, public data?: any) {
+    super(message);
+    this.name = "RpcError";
+  }
+}
+
+let nextId = 1;
+
+async function post(rpcUrl: string, body: any, timeoutMs: number): Promise<any> {
+  let response: Response;
+  try {
+    response = await fetch(rpcUrl, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(timeoutMs)
+    });
+  } catch (err: any) {
+    if (err.name === "TimeoutError") {
+      throw new RpcError(`RPC request to ${rpcUrl} timed out after ${timeoutMs}ms`);
+    }
+    throw new RpcError(`RPC request to ${rpcUrl} failed: ${err.cause?.message ?? err.message}`);
+  }
+
+  const text = await response.text();
+  if (!response.ok) {
+    throw new RpcError(`RPC endpoint returned HTTP ${response.status}: ${text.slice(0, 200)}`);
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new RpcError(`RPC endpoint returned invalid JSON: ${text.slice(0, 200)}`);
+  }
+}
+
+function toResponse(message: any): RpcResponse {
+  if (message?.error) {
+    return {
+      success: false,
+      result: null,
+      error: message.error.message ?? "RPC error",
+      code: message.error.code,
+      data: message.error.data
+    };
+  }
+  return { success: true, result: message?.result ?? null };
+}
+
+// Send several calls in one HTTP request; responses come back in request order
+export async function rpcBatch(rpcUrl: string, requests: RpcRequest[], options: RpcOptions = {}): Promise<RpcResponse[]> {
+  if (requests.length === 0) {
+    return [];
+  }
+
+  const body = requests.map(request => ({
+    jsonrpc: "2.0",
+    id: nextId++,
+    method: request.method,
+    params: request.params ?? []
+  }));
+
+  try {
+    const reply = await post(rpcUrl, body, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    // Servers may answer a batch out of order, or with a single error object
+    const byId = new Map<number, any>(Array.isArray(reply) ? reply.map((message: any) => [message.id, message]) : []);
+    return body.map(request =>
+      byId.has(request.id)
+        ? toResponse(byId.get(request.id))
+        : toResponse(Array.isArray(reply) ? { error: { message: "No response for request in batch" } } : reply)
+    );
+  } catch (err: any) {
+    return requests.map(() => ({ success: false, result: null, error: err.message }));
+  }
+}
+
+// Call a single method, returning failures as { success: false, error } like runCast does
+export async function rpcCall<T = any>(rpcUrl: string, method: string, params: any[] = [], options: RpcOptions = {}): Promise<RpcResponse<T>> {
+  try {
+    const reply = await post(
+      rpcUrl,
+      { jsonrpc: "2.0", id: nextId++, method, params },
+      options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    );
+    return toResponse(reply);
+  } catch (err: any) {
+    return { success: false, result: null as T, error: err.message };
+  }
+}
+
+// Call a single method and throw RpcError on failure
+export async function rpcRequest<T = any>(rpcUrl: string, method: string, params: any[] = [], options: RpcOptions = {}): Promise<T> {
+  const response = await rpcCall<T>(rpcUrl, method, params, options);
+  if (!response.success) {
+    throw new RpcError(response.error ?? "RPC error", response.code, response.data);
+  }
+  return response.result;
+}
+
+// Accept decimal block numbers, hex quantities and block tags
+export function toBlockParam(block: string | number | bigint | undefined): string {
+  if (block === undefined) {
+    return "latest";
+  }
+  if (typeof block !== "string") {
+    return numberToHex(block);
+  }
+  return /^\d+$/.test(block) ? numberToHex(BigInt(block)) : block;
+}
+
+// --- Typed helpers ------------------------------------------
+
+export async function getChainId(rpcUrl: string, options?: RpcOptions): Promise<number> {
+  return Number(await rpcRequest<string>(rpcUrl, "eth_chainId", [], options));
+}
+
+export async function getBlockNumber(rpcUrl: string, options?: RpcOptions): Promise<number> {
+  return Number(await rpcRequest<string>(rpcUrl, "eth_blockNumber", [], options));
+}
+
+export async function getBalance(rpcUrl: string, address: string, block?: string | number | BlockTag, options?: RpcOptions) {
+  const wei = hexToBigInt(await rpcRequest(rpcUrl, "eth_getBalance", [address, toBlockParam(block)], options));
+  return { wei: wei.toString(), ether: formatEther(wei) };
+}
+
+export async function getTransactionCount(rpcUrl: string, address: string, block?: string | number | BlockTag, options?: RpcOptions): Promise<number> {
+  return Number(await rpcRequest<string>(rpcUrl, "eth_getTransactionCount", [address, toBlockParam(block)], options));
+}
+
+export async function getCode(rpcUrl: string, address: string, block?: string | number | BlockTag, options?: RpcOptions): Promise<string> {
+  return rpcRequest<string>(rpcUrl, "eth_getCode", [address, toBlockParam(block)], options);
+}
+
+export async function getStorageAt(rpcUrl: string, address: string, slot: string, block?: string | number | BlockTag, options?: RpcOptions): Promise<string> {
+  return rpcRequest<string>(rpcUrl, "eth_getStorageAt", [address, slot, toBlockParam(block)], options);
+}
+
+export async function getBlock(rpcUrl: string, block?: string | number | BlockTag, includeTransactions = false, options?: RpcOptions): Promise<any> {
+  return rpcRequest(rpcUrl, "eth_getBlockByNumber", [toBlockParam(block), includeTransactions], options);
+}
+
+export async function getTransactionReceipt(rpcUrl: string, hash: string, options?: RpcOptions): Promise<any> {
+  return rpcRequest(rpcUrl, "eth_getTransactionReceipt", [hash], options);
+}
+
+export async function ethCall(rpcUrl: string, tx: { to: string; data: string; from?: string; value?: string }, block?: string | number | BlockTag, options?: RpcOptions): Promise<string> {
+  return rpcRequest<string>(rpcUrl, "eth_call", [tx, toBlockParam(block)], options);
+}
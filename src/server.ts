@@ -7,11 +7,22 @@ import { registerProjectTools } from "./tools/project.js";
 import { registerTemplateTools } from "./tools/templates.js";
 import { registerGasTools } from "./tools/gas.js";
 import { registerChiselTools } from "./tools/chisel.js";
+import { registerScriptTools } from "./tools/script.js";
+import { registerFuzzTools } from "./tools/fuzz.js";
+import { registerWatchTools, cleanupWatch } from "./tools/watch.js";
+import { registerEvmTools } from "./tools/evm.js";
+import { registerStateTools } from "./tools/state.js";
+import { registerTraceTools } from "./tools/trace.js";
+import { registerDecodeTools } from "./tools/decode.js";
+import { registerStorageTools } from "./tools/storage.js";
 
 // Create MCP server
 const server = new McpServer({
   name: "foundry-mcp",
   version: "0.1.0"
+}, {
+  // Logging notifications carry forge watch results
+  capabilities: { logging: {} }
 });
 
   // Register all tools
@@ -21,18 +32,28 @@ const server = new McpServer({
   registerProjectTools(server);
   registerTemplateTools(server);
   registerGasTools(server);
-  registerChiselTools(server);// --- Start the MCP server over stdio -----------------------
+  registerChiselTools(server);
+  registerScriptTools(server);
+  registerFuzzTools(server);
+  registerWatchTools(server);
+  registerEvmTools(server);
+  registerStateTools(server);
+  registerTraceTools(server);
+  registerDecodeTools(server);
+  registerStorageTools(server);// --- Start the MCP server over stdio -----------------------
 
 const transport = new StdioServerTransport();
 
 // Cleanup handler to stop Anvil on exit
 process.on('SIGTERM', () => {
   cleanupAnvil();
+  cleanupWatch();
   process.exit(0);
 });
 
 process.on('SIGINT', () => {
   cleanupAnvil();
+  cleanupWatch();
   process.exit(0);
 });
 
@@ -43,5 +64,6 @@ async function main() {
 main().catch(err => {
   console.error("Fatal error in MCP server:", err);
   cleanupAnvil();
+  cleanupWatch();
   process.exit(1);
 });
@@ -0,0 +1,255 @@
+import { concat, encodeAbiParameters, getAddress, hexToBigInt, hexToString, keccak256, numberToHex, pad, toHex } from "viem";
+import { rpcBatch } from "./rpc.js";
+import { StorageLayout, StorageLayoutType, StorageLocation } from "./types.js";
+
+type Hex = `0x${string}`;
+
+export type StoragePathStep = { kind: "member"; name: string } | { kind: "index"; key: string };
+
+// At most this many slots are fetched for one value (big static arrays, long strings)
+const MAX_SLOTS_PER_VALUE = 256;
+
+// Split "balances[0xabc].amount" or 'names["alice"][2]' into a variable and member/index steps
+export function parseStoragePath(expression: string): { variable: string; steps: StoragePathStep[] } {
+  const head = expression.match(/^\s*([A-Za-z_$][\w$]*)/);
+  if (!head) {
+    throw new Error(`Path must start with a state variable name: '${expression}'`);
+  }
+
+  const steps: StoragePathStep[] = [];
+  let rest = expression.slice(head[0].length).trim();
+  while (rest) {
+    const member = rest.match(/^\.\s*([A-Za-z_$][\w$]*)/);
+    const index = rest.match(/^\[\s*(?:"([^"]*)"|'([^']*)'|([^\]\s]+))\s*\]/);
+    if (member) {
+      steps.push({ kind: "member", name: member[1] });
+      rest = rest.slice(member[0].length).trim();
+    } else if (index) {
+      steps.push({ kind: "index", key: index[1] ?? index[2] ?? index[3] });
+      rest = rest.slice(index[0].length).trim();
+    } else {
+      throw new Error(`Unexpected '${rest}' in path '${expression}'; use .member or [key]`);
+    }
+  }
+  return { variable: head[1], steps };
+}
+
+function slotHex(slot: bigint): Hex {
+  return pad(numberToHex(slot), { size: 32 });
+}
+
+function layoutType(layout: StorageLayout, type: string): StorageLayoutType {
+  const info = layout.types?.[type];
+  if (!info) {
+    throw new Error(`Storage layout has no type information for ${type}`);
+  }
+  return info;
+}
+
+// ABI type used to encode a mapping key or decode a value, from a layout label like "contract IERC20"
+function abiType(label: string): string {
+  if (label.startsWith("contract ") || label.startsWith("address")) {
+    return "address";
+  }
+  if (label.startsWith("enum ")) {
+    return "uint8";
+  }
+  return label;
+}
+
+// keccak256(key . slot), with string/bytes keys hashed unpadded as Solidity does
+function mappingSlot(keyType: StorageLayoutType, key: string, slot: bigint): bigint {
+  let encodedKey: Hex;
+  if (keyType.encoding === "bytes") {
+    encodedKey = keyType.label === "string" ? toHex(key) : key as Hex;
+  } else {
+    const type = abiType(keyType.label);
+    const value = /^u?int\d*$/.test(type) ? BigInt(key) : type === "bool" ? key === "true" : key;
+    encodedKey = encodeAbiParameters([{ type }], [value]);
+  }
+  return hexToBigInt(keccak256(concat([encodedKey, slotHex(slot)])));
+}
+
+// Location of element `index` of an array whose data starts at `dataSlot`; small elements are packed
+function elementLocation(layout: StorageLayout, dataSlot: bigint, index: bigint, baseType: string): StorageLocation {
+  const size = Number(layoutType(layout, baseType).numberOfBytes);
+  if (size >= 32) {
+    return { slot: dataSlot + index * BigInt(Math.ceil(size / 32)), offset: 0, type: baseType };
+  }
+  const perSlot = BigInt(Math.floor(32 / size));
+  return { slot: dataSlot + index / perSlot, offset: Number(index % perSlot) * size, type: baseType };
+}
+
+function staticArrayLength(type: string): bigint | null {
+  const match = type.match(/\)(\d+)_storage$/);
+  return match ? BigInt(match[1]) : null;
+}
+
+// Compute the slot, offset and type a path expression points at
+export function resolveStoragePath(layout: StorageLayout, expression: string): StorageLocation {
+  const { variable, steps } = parseStoragePath(expression);
+  const entry = layout.storage.find(candidate => candidate.label === variable);
+  if (!entry) {
+    throw new Error(`No state variable '${variable}'; available: ${layout.storage.map(candidate => candidate.label).join(", ")}`);
+  }
+
+  let location: StorageLocation = { slot: BigInt(entry.slot), offset: entry.offset, type: entry.type };
+  for (const step of steps) {
+    const info = layoutType(layout, location.type);
+
+    if (step.kind === "member") {
+      const member = info.members?.find(candidate => candidate.label === step.name);
+      if (!member) {
+        throw new Error(info.members
+          ? `${info.label} has no member '${step.name}'; members: ${info.members.map(candidate => candidate.label).join(", ")}`
+          : `${info.label} is not a struct; cannot read .${step.name}`);
+      }
+      location = { slot: location.slot + BigInt(member.slot), offset: member.offset, type: member.type };
+    } else if (info.encoding === "mapping") {
+      location = { slot: mappingSlot(layoutType(layout, info.key!), step.key, location.slot), offset: 0, type: info.value! };
+    } else if (info.encoding === "dynamic_array") {
+      const dataSlot = hexToBigInt(keccak256(slotHex(location.slot)));
+      location = elementLocation(layout, dataSlot, BigInt(step.key), info.base!);
+    } else if (info.base) {
+      const length = staticArrayLength(location.type);
+      if (length !== null && BigInt(step.key) >= length) {
+        throw new Error(`Index ${step.key} is out of bounds for ${info.label}`);
+      }
+      location = elementLocation(layout, location.slot, BigInt(step.key), info.base);
+    } else {
+      throw new Error(`${info.label} is not a mapping or array; cannot index [${step.key}]`);
+    }
+  }
+  return location;
+}
+
+export interface StorageReader {
+  read(slot: bigint): Promise<Hex>;
+  prefetch(slots: bigint[]): Promise<void>;
+  slotsRead(): number;
+}
+
+// eth_getStorageAt with a per-request cache; prefetch batches slots a value is known to span
+export function createStorageReader(rpcUrl: string, address: string, block: string): StorageReader {
+  const cache = new Map<bigint, Hex>();
+
+  const prefetch = async (slots: bigint[]) => {
+    const missing = [...new Set(slots)].filter(slot => !cache.has(slot));
+    if (missing.length === 0) {
+      return;
+    }
+    const responses = await rpcBatch(rpcUrl, missing.map(slot => ({
+      method: "eth_getStorageAt",
+      params: [address, slotHex(slot), block]
+    })));
+    responses.forEach((response, i) => {
+      if (!response.success) {
+        throw new Error(`eth_getStorageAt failed: ${response.error}`);
+      }
+      cache.set(missing[i], pad(response.result as Hex, { size: 32 }));
+    });
+  };
+
+  return {
+    async read(slot) {
+      await prefetch([slot]);
+      return cache.get(slot)!;
+    },
+    prefetch,
+    slotsRead: () => cache.size
+  };
+}
+
+function slotRange(start: bigint, count: number): bigint[] {
+  return Array.from({ length: Math.min(count, MAX_SLOTS_PER_VALUE) }, (_, i) => start + BigInt(i));
+}
+
+// Decode an elementary value stored in `size` bytes at `offset` (counted from the low-order end) of a word
+function decodePrimitive(label: string, word: Hex, offset: number, size: number): any {
+  const end = 64 - offset * 2;
+  const raw = `0x${word.slice(2).slice(end - size * 2, end)}` as Hex;
+  const type = abiType(label);
+
+  if (type === "bool") {
+    return hexToBigInt(raw) !== 0n;
+  }
+  if (type === "address") {
+    return getAddress(raw);
+  }
+  if (/^uint\d*$/.test(type)) {
+    return hexToBigInt(raw).toString();
+  }
+  if (/^int\d*$/.test(type)) {
+    const value = hexToBigInt(raw);
+    const bits = BigInt(size * 8);
+    return (value >= 1n << (bits - 1n) ? value - (1n << bits) : value).toString();
+  }
+  return raw;
+}
+
+// Read and decode the value at a location; mappings can only be read entry by entry
+export async function decodeStorageValue(layout: StorageLayout, location: StorageLocation, reader: StorageReader, maxElements: number): Promise<any> {
+  const info = layoutType(layout, location.type);
+  const size = Number(info.numberOfBytes);
+
+  switch (info.encoding) {
+    case "mapping":
+      return { mapping: info.label, note: "Append [key] to the path to read an entry" };
+
+    case "bytes": {
+      const word = await reader.read(location.slot);
+      const header = hexToBigInt(word);
+      let data: Hex;
+      if ((header & 1n) === 0n) {
+        // Short form: data in the high-order bytes, length * 2 in the lowest byte
+        data = `0x${word.slice(2, 2 + Number(header & 0xffn))}`;
+      } else {
+        const length = Number((header - 1n) / 2n);
+        const dataSlot = hexToBigInt(keccak256(slotHex(location.slot)));
+        const slots = slotRange(dataSlot, Math.ceil(length / 32));
+        await reader.prefetch(slots);
+        const words = await Promise.all(slots.map(slot => reader.read(slot)));
+        data = `0x${words.map(value => value.slice(2)).join("").slice(0, length * 2)}`;
+      }
+      return info.label === "string" ? hexToString(data) : data;
+    }
+
+    case "dynamic_array": {
+      const length = hexToBigInt(await reader.read(location.slot));
+      const dataSlot = hexToBigInt(keccak256(slotHex(location.slot)));
+      const shown = length < BigInt(maxElements) ? Number(length) : maxElements;
+      const elements = Array.from({ length: shown }, (_, i) => elementLocation(layout, dataSlot, BigInt(i), info.base!));
+      await reader.prefetch(elements.slice(0, MAX_SLOTS_PER_VALUE).map(element => element.slot));
+      return {
+        length: length.toString(),
+        elements: await Promise.all(elements.map(element => decodeStorageValue(layout, element, reader, maxElements))),
+        truncated: BigInt(shown) < length
+      };
+    }
+
+    default: {
+      if (info.members || info.base) {
+        await reader.prefetch(slotRange(location.slot, Math.ceil(size / 32)));
+      }
+      if (info.members) {
+        const entries = await Promise.all(info.members.map(async member => [
+          member.label,
+          await decodeStorageValue(layout, { slot: location.slot + BigInt(member.slot), offset: member.offset, type: member.type }, reader, maxElements)
+        ]));
+        return Object.fromEntries(entries);
+      }
+      if (info.base) {
+        const length = Number(staticArrayLength(location.type) ?? 0n);
+        const shown = Math.min(length, maxElements);
+        return Promise.all(Array.from({ length: shown }, (_, i) =>
+          decodeStorageValue(layout, elementLocation(layout, location.slot, BigInt(i), info.base!), reader, maxElements)
+        ));
+      }
+      return decodePrimitive(info.label, await reader.read(location.slot), location.offset, size);
+    }
+  }
+}
+
+export function formatSlot(slot: bigint): string {
+  return slotHex(slot);
+}
@@ -1,10 +1,373 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { spawn, ChildProcess } from "node:child_process";
-import { PROJECT_ROOT } from "../utils.js";
+import { ChildProcess, spawn } from "node:child_process";
+import { createServer } from "node:net";
+import { existsSync } from "node:fs";
+import path from "node:path";
+import { PROJECT_ROOT, MCP_STATE_DIR } from "../utils.js";
+import { DEFAULT_RPC_URL, rpcBatch } from "../rpc.js";
+import { AnvilAccount, AnvilInstance, AnvilLogBuffer, AnvilLogLine } from "../types.js";
 
-// Store running Anvil process
-let anvilProcess: ChildProcess | null = null;
+const DEFAULT_INSTANCE = "default";
+const FIRST_PORT = 8545;
+const DEFAULT_STARTUP_TIMEOUT_MS = 30_000;
+const DEFAULT_LOG_BUFFER_LINES = 5_000;
+const DEFAULT_MAX_RESTARTS = 3;
+const DEFAULT_RESTART_DELAY_MS = 1_000;
+const EXIT_LOG_LINES = 20;
+const RPC_PROBE_TIMEOUT_MS = 2_000;
+const LOGGER = "anvil";
+
+// Saved chain states, written by anvil_state_save and loaded with `anvil_start --loadState`
+export const ANVIL_STATE_DIR = path.join(MCP_STATE_DIR, "anvil-states");
+
+// Saved state names become file names, so keep them to a single safe path segment
+export const stateNameSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9_.-]+$/, "Use letters, digits, '.', '_' or '-'")
+  .refine(name => name !== "." && name !== "..", "'.' and '..' are not valid state names")
+  // <name>.meta.json holds the metadata of state <name>
+  .refine(name => !name.endsWith(".meta"), "State names may not end in '.meta'");
+
+export function anvilStatePath(stateName: string): string {
+  return path.join(ANVIL_STATE_DIR, `${stateName}.json`);
+}
+
+// Running Anvil instances by name
+const anvilInstances = new Map<string, AnvilInstance>();
+
+function isRunning(instance: AnvilInstance): boolean {
+  return instance.status === "running";
+}
+
+function isAlive(child: ChildProcess): boolean {
+  return child.pid !== undefined && child.exitCode === null && child.signalCode === null;
+}
+
+// Resolve an instance by name; without a name use "default", or the only running instance
+export function getAnvilInstance(name?: string): AnvilInstance | null {
+  if (name) {
+    const instance = anvilInstances.get(name);
+    return instance && isRunning(instance) ? instance : null;
+  }
+
+  const fallback = anvilInstances.get(DEFAULT_INSTANCE);
+  if (fallback && isRunning(fallback)) {
+    return fallback;
+  }
+
+  const running = [...anvilInstances.values()].filter(isRunning);
+  return running.length === 1 ? running[0] : null;
+}
+
+// RPC URL of a managed Anvil instance, or null when it isn't running
+export function getAnvilRpcUrl(name?: string): string | null {
+  return getAnvilInstance(name)?.rpcUrl ?? null;
+}
+
+export interface ResolvedRpcUrl {
+  rpcUrl: string;
+  source: "argument" | "anvil" | "ETH_RPC_URL" | "default";
+  // Managed instance behind the URL, if any
+  instance: string | null;
+  // Set when several managed instances run and none can be picked; callers fail instead of guessing
+  error: string | null;
+}
+
+function severalInstancesError(names: string[], remedy: string): string {
+  return `Several Anvil instances are running (${names.join(", ")}); ${remedy}`;
+}
+
+// Endpoint for chain tools: an explicit URL, else the active managed Anvil node, else cast's own default
+export function resolveRpcUrl(rpcUrl?: string): ResolvedRpcUrl {
+  if (rpcUrl) {
+    const managed = [...anvilInstances.values()].find(instance => isRunning(instance) && instance.rpcUrl === rpcUrl);
+    return { rpcUrl, source: "argument", instance: managed?.name ?? null, error: null };
+  }
+
+  const instance = getAnvilInstance();
+  if (instance) {
+    return { rpcUrl: instance.rpcUrl, source: "anvil", instance: instance.name, error: null };
+  }
+
+  const running = [...anvilInstances.values()].filter(isRunning);
+  const error = running.length > 1
+    ? severalInstancesError(running.map(candidate => candidate.name), "pass rpcUrl to pick one")
+    : null;
+  return { rpcUrl: DEFAULT_RPC_URL, source: process.env.ETH_RPC_URL ? "ETH_RPC_URL" : "default", instance: null, error };
+}
+
+function isPortFree(port: number): Promise<boolean> {
+  return new Promise(resolve => {
+    const probe = createServer();
+    probe.once("error", () => resolve(false));
+    probe.once("listening", () => probe.close(() => resolve(true)));
+    probe.listen(port, "127.0.0.1");
+  });
+}
+
+// First free port from 8545 upwards that no managed instance has claimed
+async function findFreePort(): Promise<number> {
+  const claimed = new Set([...anvilInstances.values()].map(instance => instance.port));
+  for (let port = FIRST_PORT; port < FIRST_PORT + 1000; port++) {
+    if (!claimed.has(port) && await isPortFree(port)) {
+      return port;
+    }
+  }
+  throw new Error(`No free port found in range ${FIRST_PORT}-${FIRST_PORT + 999}`);
+}
+
+function createLogBuffer(capacity: number): AnvilLogBuffer {
+  return { capacity, lines: [], nextCursor: 0, partial: { stdout: "", stderr: "" } };
+}
+
+// Append complete lines from a chunk, evicting the oldest once the buffer is full
+function appendLog(buffer: AnvilLogBuffer, stream: "stdout" | "stderr", chunk: string) {
+  const text = buffer.partial[stream] + chunk;
+  const lines = text.split("\n");
+  buffer.partial[stream] = lines.pop() ?? "";
+
+  const timestamp = new Date().toISOString();
+  for (const line of lines) {
+    buffer.lines.push({ cursor: buffer.nextCursor++, stream, timestamp, text: line.replace(/\r$/, "") });
+  }
+  if (buffer.lines.length > buffer.capacity) {
+    buffer.lines.splice(0, buffer.lines.length - buffer.capacity);
+  }
+}
+
+// Keep reading Anvil's output for the lifetime of the process so the pipes never fill up
+function captureLogs(instance: AnvilInstance) {
+  instance.process.stdout?.on("data", (data: Buffer) => appendLog(instance.logs, "stdout", data.toString()));
+  instance.process.stderr?.on("data", (data: Buffer) => appendLog(instance.logs, "stderr", data.toString()));
+}
+
+function spawnAnvil(args: string[]): ChildProcess {
+  return spawn("anvil", args, {
+    cwd: PROJECT_ROOT,
+    env: process.env,
+    stdio: ['pipe', 'pipe', 'pipe']
+  });
+}
+
+async function notify(server: McpServer, level: "info" | "warning" | "error", data: any) {
+  try {
+    await server.sendLoggingMessage({ level, logger: LOGGER, data });
+  } catch {
+    // Client disconnected; the exit is still reported by anvil_status
+  }
+}
+
+// Capture output and exit/error events of the instance's current process
+function monitorProcess(server: McpServer, instance: AnvilInstance) {
+  const child = instance.process;
+  captureLogs(instance);
+
+  child.on("error", (err: Error) => {
+    instance.lastError = err.message;
+    // A process that failed to spawn never emits "exit"
+    if (child.pid === undefined) {
+      handleExit(server, instance, child, null, null);
+    }
+  });
+  child.once("exit", (code: number | null, signal: string | null) => handleExit(server, instance, child, code, signal));
+}
+
+// Record why the process ended and, for unexpected exits, schedule a restart if the policy allows it
+function handleExit(server: McpServer, instance: AnvilInstance, child: ChildProcess, code: number | null, signal: string | null) {
+  if (instance.process !== child || instance.status === "exited") {
+    return;
+  }
+  // Failed first starts are reported by anvil_start itself
+  const failedFirstStart = instance.status === "starting" && instance.restartCount === 0;
+
+  // Flush unterminated output so the last lines include whatever Anvil printed before dying
+  for (const stream of ["stdout", "stderr"] as const) {
+    if (instance.logs.partial[stream]) {
+      appendLog(instance.logs, stream, "\n");
+    }
+  }
+
+  instance.status = "exited";
+  instance.lastExit = {
+    code,
+    signal,
+    at: new Date().toISOString(),
+    expected: instance.stopping,
+    lastLogLines: instance.logs.lines.slice(-EXIT_LOG_LINES).map(line => line.text)
+  };
+
+  if (instance.stopping || failedFirstStart) {
+    return;
+  }
+
+  const policy = instance.restartPolicy;
+  const willRestart = policy !== null && instance.restartCount < policy.maxRestarts;
+
+  notify(server, "error", {
+    event: "exited",
+    name: instance.name,
+    code,
+    signal,
+    willRestart,
+    lastLogLines: instance.lastExit.lastLogLines
+  });
+
+  if (policy && willRestart) {
+    instance.status = "restarting";
+    instance.restartTimer = setTimeout(() => restartInstance(server, instance), policy.delayMs);
+  }
+}
+
+// Respawn a crashed instance with its original arguments
+async function restartInstance(server: McpServer, instance: AnvilInstance) {
+  instance.restartTimer = null;
+  instance.restartCount++;
+  // Snapshots and impersonation live in the dead process
+  instance.snapshots = [];
+  instance.impersonatedAccounts = [];
+
+  instance.process = spawnAnvil(instance.args);
+  instance.status = "starting";
+  instance.startedAt = Date.now();
+  monitorProcess(server, instance);
+
+  const startup = await waitForReady(instance, DEFAULT_STARTUP_TIMEOUT_MS);
+  if (!startup.ready) {
+    instance.lastError = startup.error ?? null;
+    // Still running but not listening; killing it hands over to handleExit for the next attempt
+    if (isAlive(instance.process)) {
+      instance.process.kill('SIGTERM');
+    }
+    return;
+  }
+
+  const info = parseStartupOutput(startup.stdout);
+  instance.chainId = info.chainId ?? instance.chainId;
+  instance.accounts = info.accounts;
+  instance.status = "running";
+
+  notify(server, "info", {
+    event: "restarted",
+    name: instance.name,
+    restartCount: instance.restartCount,
+    rpcUrl: instance.rpcUrl
+  });
+}
+
+// Lines following a "<title>\n=====" banner in Anvil's startup output
+function bannerSection(output: string, title: string): string[] {
+  const match = output.match(new RegExp(`${title}\\s*\\n=+\\s*\\n([\\s\\S]*?)(?:\\n\\s*\\n[^\\n]*\\n=+|$)`));
+  return match ? match[1].split("\n").map(line => line.trim()).filter(Boolean) : [];
+}
+
+// Parse the accounts, private keys and chain ID Anvil prints before it starts listening
+function parseStartupOutput(output: string): { chainId: number | null; accounts: AnvilAccount[] } {
+  const accounts: AnvilAccount[] = [];
+  for (const line of bannerSection(output, "Available Accounts")) {
+    const match = line.match(/^\((\d+)\)\s+(0x[0-9a-fA-F]{40})(?:\s+\(([^)]+)\))?/);
+    if (match) {
+      accounts.push({ index: parseInt(match[1]), address: match[2], privateKey: null, balance: match[3] ?? null });
+    }
+  }
+  for (const line of bannerSection(output, "Private Keys")) {
+    const match = line.match(/^\((\d+)\)\s+(0x[0-9a-fA-F]{64})/);
+    const account = match ? accounts.find(a => a.index === parseInt(match[1])) : undefined;
+    if (account) {
+      account.privateKey = match![2];
+    }
+  }
+
+  // Local chains print the ID under its own banner, forks print "Chain ID: <id>" in the Fork section
+  const chainLine = bannerSection(output, "Chain ID")[0] ?? output.match(/Chain ID:\s*(\d+)/)?.[1];
+  const chainId = chainLine && /^\d+$/.test(chainLine) ? parseInt(chainLine) : null;
+
+  return { chainId, accounts };
+}
+
+// Resolve once Anvil reports it is listening, or with an error if it exits or times out first
+function waitForReady(instance: AnvilInstance, timeoutMs: number): Promise<{ ready: boolean; stdout: string; stderr: string; error?: string }> {
+  return new Promise(resolve => {
+    const child = instance.process;
+    let stdout = "";
+    let stderr = "";
+
+    const finish = (result: { ready: boolean; error?: string }) => {
+      clearTimeout(timer);
+      child.stdout?.off("data", onStdout);
+      child.stderr?.off("data", onStderr);
+      child.off("exit", onExit);
+      child.off("error", onError);
+      resolve({ ...result, stdout, stderr });
+    };
+
+    const onStdout = (data: Buffer) => {
+      stdout += data.toString();
+      if (/Listening on/.test(stdout)) {
+        finish({ ready: true });
+      }
+    };
+    const onStderr = (data: Buffer) => {
+      stderr += data.toString();
+    };
+    const onExit = (code: number | null, signal: string | null) => {
+      finish({ ready: false, error: `Anvil exited during startup (code ${code}${signal ? `, signal ${signal}` : ""})` });
+    };
+    const onError = (err: Error) => {
+      finish({ ready: false, error: err.message });
+    };
+    const timer = setTimeout(() => {
+      finish({ ready: false, error: `Anvil did not start listening within ${timeoutMs}ms` });
+    }, timeoutMs);
+
+    child.stdout?.on("data", onStdout);
+    child.stderr?.on("data", onStderr);
+    child.once("exit", onExit);
+    child.once("error", onError);
+  });
+}
+
+function stopInstance(instance: AnvilInstance) {
+  instance.stopping = true;
+  if (instance.restartTimer) {
+    clearTimeout(instance.restartTimer);
+    instance.restartTimer = null;
+  }
+  if (isAlive(instance.process)) {
+    instance.process.kill('SIGTERM');
+  }
+  anvilInstances.delete(instance.name);
+}
+
+// Instance details plus a live eth_blockNumber/eth_chainId probe to check the node still answers RPC
+async function describeInstance(instance: AnvilInstance) {
+  const running = isRunning(instance);
+  const [probe, chain] = running
+    ? await rpcBatch(instance.rpcUrl, [{ method: "eth_blockNumber" }, { method: "eth_chainId" }], { timeoutMs: RPC_PROBE_TIMEOUT_MS })
+    : [null, null];
+
+  return {
+    name: instance.name,
+    status: instance.status,
+    isRunning: running,
+    rpcResponsive: probe?.success ?? false,
+    pid: instance.process.pid ?? null,
+    port: instance.port,
+    rpcUrl: instance.rpcUrl,
+    startedAt: new Date(instance.startedAt).toISOString(),
+    uptimeMs: running ? Date.now() - instance.startedAt : null,
+    chainId: chain?.success ? Number(chain.result) : instance.chainId,
+    currentBlock: probe?.success ? Number(probe.result) : null,
+    forkUrl: instance.forkUrl,
+    forkBlockNumber: instance.forkBlockNumber,
+    restartPolicy: instance.restartPolicy,
+    restartCount: instance.restartCount,
+    lastExit: instance.lastExit,
+    lastError: probe && !probe.success ? probe.error ?? null : instance.lastError,
+    impersonatedAccounts: instance.impersonatedAccounts,
+    args: instance.args
+  };
+}
 
 export function registerAnvilTools(server: McpServer) {
   // --- Tool: anvil_start -----------------------------------
@@ -13,12 +376,17 @@ export function registerAnvilTools(server: McpServer) {
     {
       title: "Start Anvil",
       description:
-        "Start a local Anvil blockchain node with optional configuration.",
+        "Start a named local Anvil blockchain node with optional configuration. " +
+        "Several instances (e.g. a clean chain and a fork) can run side by side.",
       inputSchema: {
+        name: z
+          .string()
+          .optional()
+          .describe("Instance name (default: 'default')"),
         port: z
           .number()
           .optional()
-          .describe("Port for Anvil to listen on (default: 8545)"),
+          .describe("Port for Anvil to listen on (default: first free port from 8545)"),
         chainId: z
           .number()
           .optional()
@@ -43,15 +411,43 @@ export function registerAnvilTools(server: McpServer) {
           .number()
           .optional()
           .describe("Block number to fork from"),
+        loadState: stateNameSchema
+          .optional()
+          .describe("Name of a state saved with anvil_state_save to load on startup"),
+        startupTimeoutMs: z
+          .number()
+          .optional()
+          .describe("How long to wait for Anvil to start listening (default: 30000)"),
+        logBufferLines: z
+          .number()
+          .optional()
+          .describe("Number of output lines kept for anvil_logs (default: 5000)"),
+        autoRestart: z
+          .boolean()
+          .optional()
+          .describe("Restart Anvil with the same arguments if it exits unexpectedly (chain state is lost)"),
+        maxRestarts: z
+          .number()
+          .int()
+          .nonnegative()
+          .optional()
+          .describe("Maximum number of automatic restarts (default: 3)"),
+        restartDelayMs: z
+          .number()
+          .int()
+          .nonnegative()
+          .optional()
+          .describe("Delay before an automatic restart (default: 1000)"),
         extraArgs: z
           .array(z.string())
           .optional()
           .describe("Additional anvil CLI flags")
       }
     },
-    async ({ port, chainId, accounts, balance, mnemonic, forkUrl, forkBlockNumber, extraArgs = [] }) => {
-      // Check if Anvil is already running
-      if (anvilProcess && !anvilProcess.killed) {
+    async ({ name = DEFAULT_INSTANCE, port, chainId, accounts, balance, mnemonic, forkUrl, forkBlockNumber, loadState, startupTimeoutMs = DEFAULT_STARTUP_TIMEOUT_MS, logBufferLines = DEFAULT_LOG_BUFFER_LINES, autoRestart = false, maxRestarts = DEFAULT_MAX_RESTARTS, restartDelayMs = DEFAULT_RESTART_DELAY_MS, extraArgs = [] }) => {
+      // Check if an instance with this name is already running; exited instances are replaced
+      const existing = anvilInstances.get(name);
+      if (existing && existing.status !== "exited") {
         return {
           content: [
             {
@@ -59,38 +455,114 @@ export function registerAnvilTools(server: McpServer) {
               text: JSON.stringify({
                 tool: "anvil_start",
                 success: false,
-                error: "Anvil is already running. Use anvil_stop to stop it first."
+                error: `Anvil instance '${name}' is already ${existing.status} on port ${existing.port}. Use anvil_stop to stop it first.`
               }, null, 2)
             }
           ]
         };
       }
 
-      const args: string[] = [];
-
-      if (port) args.push("--port", port.toString());
-      if (chainId) args.push("--chain-id", chainId.toString());
-      if (accounts) args.push("--accounts", accounts.toString());
-      if (balance) args.push("--balance", balance);
-      if (mnemonic) args.push("--mnemonic", mnemonic);
-      if (forkUrl) args.push("--fork-url", forkUrl);
-      if (forkBlockNumber) args.push("--fork-block-number", forkBlockNumber.toString());
-      
-      args.push(...extraArgs);
+      if (loadState && !existsSync(anvilStatePath(loadState))) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                tool: "anvil_start",
+                success: false,
+                error: `No saved state named '${loadState}'. Use anvil_state_list to see saved states.`
+              }, null, 2)
+            }
+          ]
+        };
+      }
 
       try {
-        anvilProcess = spawn("anvil", args, {
-          cwd: PROJECT_ROOT,
-          env: process.env,
-          stdio: ['pipe', 'pipe', 'pipe']
-        });
+        const listenPort = port ?? await findFreePort();
+        const args: string[] = ["--port", listenPort.toString()];
+
+        if (chainId) args.push("--chain-id", chainId.toString());
+        if (accounts) args.push("--accounts", accounts.toString());
+        if (balance) args.push("--balance", balance);
+        if (mnemonic) args.push("--mnemonic", mnemonic);
+        if (forkUrl) args.push("--fork-url", forkUrl);
+        if (forkBlockNumber) args.push("--fork-block-number", forkBlockNumber.toString());
+        if (loadState) args.push("--load-state", anvilStatePath(loadState));
+
+        args.push(...extraArgs);
+
+        const anvilProcess = spawnAnvil(args);
+
+        const instance: AnvilInstance = {
+          name,
+          process: anvilProcess,
+          status: "starting",
+          port: listenPort,
+          rpcUrl: `http://127.0.0.1:${listenPort}`,
+          args,
+          startedAt: Date.now(),
+          forkUrl: forkUrl ?? null,
+          forkBlockNumber: forkBlockNumber ?? null,
+          chainId: chainId ?? null,
+          accounts: [],
+          logs: createLogBuffer(logBufferLines),
+          snapshots: [],
+          impersonatedAccounts: [],
+          restartPolicy: null,
+          restartCount: 0,
+          restartTimer: null,
+          stopping: false,
+          lastExit: null,
+          lastError: null
+        };
+        anvilInstances.set(name, instance);
+        monitorProcess(server, instance);
+
+        const startup = await waitForReady(instance, startupTimeoutMs);
+        if (!startup.ready) {
+          stopInstance(instance);
+
+          const payload = {
+            tool: "anvil_start",
+            success: false,
+            name,
+            args,
+            error: startup.error,
+            stderr: startup.stderr,
+            stdout: startup.stdout.split("\n").slice(-20).join("\n")
+          };
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(payload, null, 2)
+              }
+            ],
+            structuredContent: payload
+          };
+        }
+
+        const info = parseStartupOutput(startup.stdout);
+        instance.chainId = info.chainId ?? instance.chainId;
+        instance.accounts = info.accounts;
+        instance.status = "running";
+        // Only restart nodes that came up once; a bad configuration would just crash again
+        instance.restartPolicy = autoRestart ? { maxRestarts, delayMs: restartDelayMs } : null;
 
         const payload = {
           tool: "anvil_start",
           success: true,
+          name,
           pid: anvilProcess.pid,
+          port: listenPort,
+          rpcUrl: instance.rpcUrl,
+          chainId: instance.chainId,
+          loadedState: loadState ?? null,
+          restartPolicy: instance.restartPolicy,
+          accounts: instance.accounts,
           args,
-          message: "Anvil started successfully"
+          message: `Anvil instance '${name}' started and listening on ${instance.rpcUrl}`
         };
 
         return {
@@ -127,10 +599,25 @@ export function registerAnvilTools(server: McpServer) {
     "anvil_stop",
     {
       title: "Stop Anvil",
-      description: "Stop the running Anvil blockchain node."
+      description: "Stop a running Anvil instance by name, or all instances.",
+      inputSchema: {
+        name: z
+          .string()
+          .optional()
+          .describe("Instance to stop (default: 'default', or the only running instance)"),
+        all: z
+          .boolean()
+          .optional()
+          .describe("Stop every running instance")
+      }
     },
-    async () => {
-      if (!anvilProcess || anvilProcess.killed) {
+    async ({ name, all = false }) => {
+      // Named instances can be removed after they have exited
+      const targets = all
+        ? [...anvilInstances.values()]
+        : [name ? anvilInstances.get(name) ?? null : getAnvilInstance()].filter((instance): instance is AnvilInstance => instance !== null);
+
+      if (targets.length === 0) {
         return {
           content: [
             {
@@ -138,7 +625,11 @@ export function registerAnvilTools(server: McpServer) {
               text: JSON.stringify({
                 tool: "anvil_stop",
                 success: false,
-                error: "No Anvil process is currently running"
+                error: name
+                  ? `No Anvil instance named '${name}'`
+                  : anvilInstances.size > 1
+                  ? severalInstancesError([...anvilInstances.keys()], "pass a name or all: true")
+                  : "No Anvil process is currently running"
               }, null, 2)
             }
           ]
@@ -146,13 +637,13 @@ export function registerAnvilTools(server: McpServer) {
       }
 
       try {
-        anvilProcess.kill('SIGTERM');
-        anvilProcess = null;
+        targets.forEach(stopInstance);
 
         const payload = {
           tool: "anvil_stop",
           success: true,
-          message: "Anvil stopped successfully"
+          stopped: targets.map(instance => instance.name),
+          message: `Stopped ${targets.length} Anvil instance(s)`
         };
 
         return {
@@ -189,15 +680,144 @@ export function registerAnvilTools(server: McpServer) {
     "anvil_status",
     {
       title: "Anvil Status",
-      description: "Check if Anvil is currently running."
+      description:
+        "Report every managed Anvil instance: status, uptime, RPC URL, chain ID, current block, fork " +
+        "settings, whether the node answers RPC, and exit code/signal/last output of crashed instances.",
+      inputSchema: {
+        name: z
+          .string()
+          .optional()
+          .describe("Only report this instance (default: all instances)")
+      }
     },
-    async () => {
-      const isRunning = anvilProcess && !anvilProcess.killed;
-      
+    async ({ name }) => {
+      const instances = await Promise.all(
+        [...anvilInstances.values()]
+          .filter(instance => !name || instance.name === name)
+          .map(describeInstance)
+      );
+
       const payload = {
         tool: "anvil_status",
-        isRunning,
-        pid: isRunning ? anvilProcess?.pid : null
+        isRunning: instances.some(instance => instance.isRunning),
+        instances
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(payload, null, 2)
+          }
+        ],
+        structuredContent: payload
+      };
+    }
+  );
+
+  // --- Tool: anvil_logs ------------------------------------
+  server.registerTool(
+    "anvil_logs",
+    {
+      title: "Anvil logs",
+      description:
+        "Read captured Anvil output (mined transactions, RPC calls, errors). Supports tailing, " +
+        "text/regex filtering and incremental reads from a cursor.",
+      inputSchema: {
+        name: z
+          .string()
+          .optional()
+          .describe("Instance to read (default: 'default', or the only running instance)"),
+        tail: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Return at most this many matching lines: the newest, or the oldest after sinceCursor (default: 100)"),
+        sinceCursor: z
+          .number()
+          .optional()
+          .describe("Only return lines with a cursor >= this value (use nextCursor from a previous call)"),
+        contains: z
+          .string()
+          .optional()
+          .describe("Only return lines containing this text"),
+        regex: z
+          .string()
+          .optional()
+          .describe("Only return lines matching this regular expression"),
+        stream: z
+          .enum(["stdout", "stderr"])
+          .optional()
+          .describe("Only return lines from this stream")
+      }
+    },
+    async ({ name, tail = 100, sinceCursor, contains, regex, stream }) => {
+      const instance = name ? anvilInstances.get(name) ?? null : getAnvilInstance();
+
+      let pattern: RegExp | null = null;
+      try {
+        pattern = regex ? new RegExp(regex) : null;
+      } catch (err: any) {
+        const payload = {
+          tool: "anvil_logs",
+          success: false,
+          error: `Invalid regex: ${err.message}`
+        };
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(payload, null, 2)
+            }
+          ],
+          structuredContent: payload
+        };
+      }
+
+      if (!instance) {
+        const payload = {
+          tool: "anvil_logs",
+          success: false,
+          error: name ? `No Anvil instance named '${name}'` : "No Anvil instance is running; pass a name"
+        };
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(payload, null, 2)
+            }
+          ],
+          structuredContent: payload
+        };
+      }
+
+      const buffer = instance.logs;
+      const oldestCursor = buffer.lines[0]?.cursor ?? buffer.nextCursor;
+      const matching: AnvilLogLine[] = buffer.lines.filter(line =>
+        (sinceCursor === undefined || line.cursor >= sinceCursor) &&
+        (!stream || line.stream === stream) &&
+        (!contains || line.text.includes(contains)) &&
+        (!pattern || pattern.test(line.text))
+      );
+
+      // When polling, page forward from the cursor so no line is skipped
+      const lines = sinceCursor === undefined ? matching.slice(-tail) : matching.slice(0, tail);
+      const hasMore = sinceCursor !== undefined && lines.length < matching.length;
+
+      const payload = {
+        tool: "anvil_logs",
+        success: true,
+        name: instance.name,
+        lines,
+        matchedLines: matching.length,
+        bufferedLines: buffer.lines.length,
+        nextCursor: hasMore ? lines[lines.length - 1].cursor + 1 : buffer.nextCursor,
+        hasMore,
+        // Lines between sinceCursor and the oldest buffered line were evicted
+        truncated: sinceCursor !== undefined && sinceCursor < oldestCursor
       };
 
       return {
@@ -215,8 +835,5 @@ export function registerAnvilTools(server: McpServer) {
 
 // Export cleanup function for the main server
 export function cleanupAnvil() {
-  if (anvilProcess && !anvilProcess.killed) {
-    anvilProcess.kill('SIGTERM');
-    anvilProcess = null;
-  }
+  [...anvilInstances.values()].forEach(stopInstance);
 }
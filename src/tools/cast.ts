@@ -1,6 +1,128 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { runCast, PROJECT_ROOT, DEFAULT_PRIVATE_KEY } from "../utils.js";
+import { AbiEvent, encodeEventTopics, numberToHex, pad, parseUnits, toEventSelector } from "viem";
+import { runCast, parseJsonOutput, jsonResponse, PROJECT_ROOT, DEFAULT_PRIVATE_KEY } from "../utils.js";
+import { getAnvilInstance, resolveRpcUrl } from "./anvil.js";
+import { getBalance, getBlock, rpcCall, toBlockParam } from "../rpc.js";
+import { decodeCallResult, decodeLog, decodeRevert, encodeCall, findEvents, loadAbiIndex } from "../abi.js";
+import { abiSignature } from "../artifacts.js";
+import { AbiIndex, DecodedRevert, TransactionReceipt } from "../types.js";
+
+const DEFAULT_LOG_PAGE_SIZE = 100;
+// Blocks scanned by one cast_logs call; later pages continue from nextFromBlock
+const DEFAULT_LOG_BLOCK_RANGE = 10_000;
+
+// Indexed filter value as a 32-byte topic: full topics pass through, addresses and numbers are left-padded
+function toTopic(value: string): string {
+  if (/^0x[0-9a-fA-F]{1,64}$/.test(value)) {
+    return pad(value.toLowerCase() as `0x${string}`, { size: 32 });
+  }
+  if (/^\d+$/.test(value)) {
+    return pad(numberToHex(BigInt(value)), { size: 32 });
+  }
+  throw new Error(`Cannot use '${value}' as a topic; pass 32-byte hex, an address or a decimal number`);
+}
+
+// Topics 1-3 for named indexed arguments, encoded with the event's ABI types
+function indexedArgTopics(item: AbiEvent, indexedArgs: Record<string, string>): Array<string | string[] | null> {
+  const indexed = item.inputs.filter(input => input.indexed);
+  const unknown = Object.keys(indexedArgs).filter(name => !indexed.some(input => input.name === name));
+  if (unknown.length > 0) {
+    throw new Error(`${abiSignature(item)} has no indexed argument(s) ${unknown.join(", ")}`);
+  }
+
+  const args = Object.fromEntries(indexed.map(input => {
+    const value = input.name === undefined ? undefined : indexedArgs[input.name];
+    if (value === undefined) {
+      return [input.name, null];
+    }
+    if (/^u?int\d*$/.test(input.type)) {
+      return [input.name, BigInt(value)];
+    }
+    return [input.name, input.type === "bool" ? value === "true" : value];
+  }));
+  return encodeEventTopics({ abi: [item], args }).slice(1);
+}
+
+// Block number for a number, decimal/hex string or tag such as "latest"
+async function resolveBlockNumber(rpcUrl: string, block: string | number): Promise<number> {
+  if (typeof block === "number") {
+    return block;
+  }
+  if (/^(\d+|0x[0-9a-fA-F]+)$/.test(block)) {
+    return Number(block);
+  }
+  const resolved = await getBlock(rpcUrl, block);
+  if (!resolved) {
+    throw new Error(`Block '${block}' not found`);
+  }
+  return Number(resolved.number);
+}
+
+// Wei quantity for "1000", "0x3e8", "1ether" or "2.5 gwei", as cast accepts them
+function toQuantity(value: string): string {
+  const units = value.trim().match(/^([\d.]+)\s*(ether|gwei|wei)$/i);
+  if (units) {
+    return numberToHex(parseUnits(units[1], units[2].toLowerCase() === "ether" ? 18 : units[2].toLowerCase() === "gwei" ? 9 : 0));
+  }
+  return numberToHex(BigInt(value.trim()));
+}
+
+function hexToNumber(value: string | number | null | undefined): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+// Shape the receipt printed by `cast send --json`, decoding logs against project ABIs
+function parseReceipt(raw: any, index: AbiIndex): TransactionReceipt {
+  return {
+    transactionHash: raw.transactionHash,
+    status: raw.status === "0x1" || raw.status === 1 || raw.status === "success" ? "success" : "reverted",
+    blockNumber: hexToNumber(raw.blockNumber),
+    blockHash: raw.blockHash ?? null,
+    from: raw.from ?? null,
+    to: raw.to ?? null,
+    contractAddress: raw.contractAddress ?? null,
+    gasUsed: hexToNumber(raw.gasUsed),
+    effectiveGasPrice: raw.effectiveGasPrice ? BigInt(raw.effectiveGasPrice).toString() : null,
+    logs: (raw.logs ?? []).map((log: any) => decodeLog(index, log))
+  };
+}
+
+// Revert data of a transaction that was mined but failed, by replaying it on the parent block
+async function replayRevertData(rpcUrl: string, receipt: TransactionReceipt): Promise<string | null> {
+  const tx = await rpcCall(rpcUrl, "eth_getTransactionByHash", [receipt.transactionHash]);
+  if (!tx.success || !tx.result) {
+    return null;
+  }
+  const block = receipt.blockNumber !== null ? toBlockParam(Math.max(receipt.blockNumber - 1, 0)) : "latest";
+  const call = await rpcCall(rpcUrl, "eth_call", [
+    { from: tx.result.from, to: tx.result.to, data: tx.result.input, value: tx.result.value, gas: tx.result.gas },
+    block
+  ]);
+  return !call.success && typeof call.data === "string" ? call.data : null;
+}
+
+// Revert data of a transaction cast refused to send (gas estimation reverted)
+async function simulateRevertData(rpcUrl: string, stderr: string, to: string, signature: string, args: string[], from?: string, value?: string): Promise<string | null> {
+  const reported = stderr.match(/data:\s*\\?"?(0x[0-9a-fA-F]*)/);
+  if (reported) {
+    return reported[1];
+  }
+  if (!/revert/i.test(stderr)) {
+    return null;
+  }
+
+  let data: string;
+  let quantity: string | undefined;
+  try {
+    data = encodeCall(signature, args).data;
+    quantity = value ? toQuantity(value) : undefined;
+  } catch {
+    return null;
+  }
+  const call = await rpcCall(rpcUrl, "eth_call", [{ from, to, data, value: quantity }, "latest"]);
+  return !call.success && typeof call.data === "string" ? call.data : null;
+}
 
 export function registerCastTools(server: McpServer) {
   // --- Tool: cast_call -------------------------------------
@@ -8,7 +130,10 @@ export function registerCastTools(server: McpServer) {
     "cast_call",
     {
       title: "Cast call",
-      description: "Call a read-only function on a contract using cast.",
+      description:
+        "Call a read-only function with eth_call. The signature may carry return types, cast-style " +
+        "('balanceOf(address)(uint256)'); results are decoded with them or with a matching project ABI, and " +
+        "reverts are decoded. extraArgs fall back to `cast call`.",
       inputSchema: {
         contractAddress: z
           .string()
@@ -23,26 +148,81 @@ export function registerCastTools(server: McpServer) {
         rpcUrl: z
           .string()
           .optional()
-          .describe("RPC URL (defaults to local Anvil)"),
+          .describe("RPC URL (default: the running managed Anvil instance, else ETH_RPC_URL or localhost:8545)"),
         blockNumber: z
           .string()
           .optional()
           .describe("Block number to query at"),
+        from: z
+          .string()
+          .optional()
+          .describe("Caller address (msg.sender)"),
         extraArgs: z
           .array(z.string())
           .optional()
           .describe("Additional cast call CLI flags")
       }
     },
-    async ({ contractAddress, signature, args = [], rpcUrl, blockNumber, extraArgs = [] }) => {
-      const castArgs = ["call"];
+    async ({ contractAddress, signature, args = [], rpcUrl, blockNumber, from, extraArgs = [] }) => {
+      const endpoint = resolveRpcUrl(rpcUrl);
+      if (endpoint.error) {
+        return jsonResponse({
+          tool: "cast_call",
+          projectRoot: PROJECT_ROOT,
+          success: false,
+          error: endpoint.error
+        });
+      }
+
+      if (extraArgs.length === 0) {
+        let call: ReturnType<typeof encodeCall>;
+        try {
+          call = encodeCall(signature, args);
+        } catch (err: any) {
+          return jsonResponse({
+            tool: "cast_call",
+            projectRoot: PROJECT_ROOT,
+            success: false,
+            rpcUrl: endpoint.rpcUrl,
+            rpcUrlSource: endpoint.source,
+            error: err.shortMessage ?? err.message
+          });
+        }
 
-      if (rpcUrl) {
-        castArgs.push("--rpc-url", rpcUrl);
+        const response = await rpcCall<string>(
+          endpoint.rpcUrl,
+          "eth_call",
+          [{ from, to: contractAddress, data: call.data }, toBlockParam(blockNumber)]
+        );
+        const index = loadAbiIndex();
+
+        return jsonResponse({
+          tool: "cast_call",
+          projectRoot: PROJECT_ROOT,
+          success: response.success,
+          rpcUrl: endpoint.rpcUrl,
+          rpcUrlSource: endpoint.source,
+          to: contractAddress,
+          signature: abiSignature(call.item),
+          calldata: call.data,
+          blockNumber: blockNumber ?? "latest",
+          result: response.success ? response.result : null,
+          decoded: response.success ? decodeCallResult(index, call.item, call.data, response.result) : null,
+          ...(response.success ? {} : {
+            error: response.error,
+            revert: typeof response.data === "string" ? decodeRevert(index, response.data) : null
+          })
+        });
       }
+
+      const castArgs = ["call", "--rpc-url", endpoint.rpcUrl];
+
       if (blockNumber) {
         castArgs.push("--block", blockNumber);
       }
+      if (from) {
+        castArgs.push("--from", from);
+      }
 
       castArgs.push(contractAddress, signature, ...args, ...extraArgs);
 
@@ -52,6 +232,8 @@ export function registerCastTools(server: McpServer) {
         tool: "cast_call",
         projectRoot: PROJECT_ROOT,
         success: result.success,
+        rpcUrl: endpoint.rpcUrl,
+        rpcUrlSource: endpoint.source,
         args: castArgs,
         stdout: result.stdout,
         stderr: result.stderr
@@ -74,7 +256,9 @@ export function registerCastTools(server: McpServer) {
     "cast_send",
     {
       title: "Cast send",
-      description: "Send a transaction to a contract using cast.",
+      description:
+        "Send a transaction to a contract using cast. Returns the parsed receipt with logs decoded against " +
+        "project ABIs, and the decoded revert reason or custom error when the transaction fails.",
       inputSchema: {
         contractAddress: z
           .string()
@@ -94,6 +278,10 @@ export function registerCastTools(server: McpServer) {
           .string()
           .optional()
           .describe("From address"),
+        unlocked: z
+          .boolean()
+          .optional()
+          .describe("Send from `from` without a private key (`--unlocked`); implied when `from` is impersonated on the managed Anvil node"),
         value: z
           .string()
           .optional()
@@ -109,24 +297,40 @@ export function registerCastTools(server: McpServer) {
         rpcUrl: z
           .string()
           .optional()
-          .describe("RPC URL (defaults to local Anvil)"),
+          .describe("RPC URL (default: the running managed Anvil instance, else ETH_RPC_URL or localhost:8545)"),
         extraArgs: z
           .array(z.string())
           .optional()
           .describe("Additional cast send CLI flags")
       }
     },
-    async ({ contractAddress, signature, args = [], privateKey, from, value, gasLimit, gasPrice, rpcUrl, extraArgs = [] }) => {
-      const castArgs = ["send"];
-
-      if (rpcUrl) {
-        castArgs.push("--rpc-url", rpcUrl);
+    async ({ contractAddress, signature, args = [], privateKey, from, unlocked, value, gasLimit, gasPrice, rpcUrl, extraArgs = [] }) => {
+      const endpoint = resolveRpcUrl(rpcUrl);
+      if (endpoint.error) {
+        return jsonResponse({
+          tool: "cast_send",
+          projectRoot: PROJECT_ROOT,
+          success: false,
+          error: endpoint.error
+        });
       }
-      
-      // Use provided private key or fall back to environment variable
-      const keyToUse = privateKey || DEFAULT_PRIVATE_KEY;
-      if (keyToUse) {
-        castArgs.push("--private-key", keyToUse);
+
+      const castArgs = ["send", "--rpc-url", endpoint.rpcUrl];
+
+      // Impersonated accounts on the managed node sign nothing; the node accepts them unlocked
+      const target = endpoint.instance ? getAnvilInstance(endpoint.instance) : null;
+      const impersonated = from !== undefined &&
+        (target?.impersonatedAccounts.includes(from.toLowerCase()) ?? false);
+      const sendUnlocked = from !== undefined && !privateKey && (unlocked ?? impersonated);
+
+      if (sendUnlocked) {
+        castArgs.push("--unlocked");
+      } else {
+        // Use provided private key or fall back to environment variable
+        const keyToUse = privateKey || DEFAULT_PRIVATE_KEY;
+        if (keyToUse) {
+          castArgs.push("--private-key", keyToUse);
+        }
       }
       
       if (from) {
@@ -142,16 +346,36 @@ export function registerCastTools(server: McpServer) {
         castArgs.push("--gas-price", gasPrice);
       }
 
-      castArgs.push(contractAddress, signature, ...args, ...extraArgs);
+      castArgs.push("--json", contractAddress, signature, ...args, ...extraArgs);
 
       const result = await runCast(castArgs);
 
+      const index = loadAbiIndex();
+      const raw = result.success ? parseJsonOutput(result.stdout) : null;
+      const receipt = raw && typeof raw === "object" && raw.transactionHash ? parseReceipt(raw, index) : null;
+
+      let revert: DecodedRevert | null = null;
+      if (receipt?.status === "reverted") {
+        const data = await replayRevertData(endpoint.rpcUrl, receipt);
+        revert = data !== null ? decodeRevert(index, data) : null;
+      } else if (!result.success) {
+        const data = await simulateRevertData(endpoint.rpcUrl, result.stderr, contractAddress, signature, args, from, value);
+        revert = data !== null ? decodeRevert(index, data) : null;
+      }
+
       const payload = {
         tool: "cast_send",
         projectRoot: PROJECT_ROOT,
-        success: result.success,
+        success: result.success && receipt?.status !== "reverted",
+        rpcUrl: endpoint.rpcUrl,
+        rpcUrlSource: endpoint.source,
+        unlocked: sendUnlocked,
+        transactionHash: receipt?.transactionHash ?? result.stdout.match(/0x[0-9a-fA-F]{64}/)?.[0] ?? null,
+        receipt,
+        revert,
         args: castArgs,
-        stdout: result.stdout,
+        // Raw output is only useful when it wasn't a receipt (e.g. --async)
+        ...(receipt ? {} : { stdout: result.stdout }),
         stderr: result.stderr
       };
 
@@ -172,7 +396,9 @@ export function registerCastTools(server: McpServer) {
     "cast_estimate_gas",
     {
       title: "Cast estimate gas",
-      description: "Estimate gas for a transaction using cast.",
+      description:
+        "Estimate gas for a transaction with eth_estimateGas, decoding the revert reason when estimation " +
+        "fails. extraArgs fall back to `cast estimate`.",
       inputSchema: {
         contractAddress: z
           .string()
@@ -195,7 +421,7 @@ export function registerCastTools(server: McpServer) {
         rpcUrl: z
           .string()
           .optional()
-          .describe("RPC URL (defaults to local Anvil)"),
+          .describe("RPC URL (default: the running managed Anvil instance, else ETH_RPC_URL or localhost:8545)"),
         extraArgs: z
           .array(z.string())
           .optional()
@@ -203,11 +429,58 @@ export function registerCastTools(server: McpServer) {
       }
     },
     async ({ contractAddress, signature, args = [], from, value, rpcUrl, extraArgs = [] }) => {
-      const castArgs = ["estimate"];
+      const endpoint = resolveRpcUrl(rpcUrl);
+      if (endpoint.error) {
+        return jsonResponse({
+          tool: "cast_estimate_gas",
+          projectRoot: PROJECT_ROOT,
+          success: false,
+          error: endpoint.error
+        });
+      }
+
+      if (extraArgs.length === 0) {
+        let call: ReturnType<typeof encodeCall>;
+        let quantity: string | undefined;
+        try {
+          call = encodeCall(signature, args);
+          quantity = value ? toQuantity(value) : undefined;
+        } catch (err: any) {
+          return jsonResponse({
+            tool: "cast_estimate_gas",
+            projectRoot: PROJECT_ROOT,
+            success: false,
+            rpcUrl: endpoint.rpcUrl,
+            rpcUrlSource: endpoint.source,
+            error: err.shortMessage ?? err.message
+          });
+        }
+
+        const response = await rpcCall<string>(
+          endpoint.rpcUrl,
+          "eth_estimateGas",
+          [{ from, to: contractAddress, data: call.data, value: quantity }]
+        );
 
-      if (rpcUrl) {
-        castArgs.push("--rpc-url", rpcUrl);
+        return jsonResponse({
+          tool: "cast_estimate_gas",
+          projectRoot: PROJECT_ROOT,
+          success: response.success,
+          rpcUrl: endpoint.rpcUrl,
+          rpcUrlSource: endpoint.source,
+          to: contractAddress,
+          signature: abiSignature(call.item),
+          calldata: call.data,
+          gasEstimate: response.success && response.result ? BigInt(response.result).toString() : null,
+          ...(response.success ? {} : {
+            error: response.error,
+            revert: typeof response.data === "string" ? decodeRevert(loadAbiIndex(), response.data) : null
+          })
+        });
       }
+
+      const castArgs = ["estimate", "--rpc-url", endpoint.rpcUrl];
+
       if (from) {
         castArgs.push("--from", from);
       }
@@ -223,6 +496,8 @@ export function registerCastTools(server: McpServer) {
         tool: "cast_estimate_gas",
         projectRoot: PROJECT_ROOT,
         success: result.success,
+        rpcUrl: endpoint.rpcUrl,
+        rpcUrlSource: endpoint.source,
         args: castArgs,
         stdout: result.stdout,
         stderr: result.stderr
@@ -245,7 +520,9 @@ export function registerCastTools(server: McpServer) {
     "cast_balance",
     {
       title: "Cast balance",
-      description: "Get the balance of an address using cast.",
+      description:
+        "Get the balance of an address in wei and ether. Queries the node directly over JSON-RPC; " +
+        "extraArgs (e.g. --erc20) fall back to `cast balance`.",
       inputSchema: {
         address: z
           .string()
@@ -253,7 +530,7 @@ export function registerCastTools(server: McpServer) {
         rpcUrl: z
           .string()
           .optional()
-          .describe("RPC URL (defaults to local Anvil)"),
+          .describe("RPC URL (default: the running managed Anvil instance, else ETH_RPC_URL or localhost:8545)"),
         blockNumber: z
           .string()
           .optional()
@@ -265,11 +542,44 @@ export function registerCastTools(server: McpServer) {
       }
     },
     async ({ address, rpcUrl, blockNumber, extraArgs = [] }) => {
-      const castArgs = ["balance"];
+      const endpoint = resolveRpcUrl(rpcUrl);
+      if (endpoint.error) {
+        return jsonResponse({
+          tool: "cast_balance",
+          projectRoot: PROJECT_ROOT,
+          success: false,
+          error: endpoint.error
+        });
+      }
 
-      if (rpcUrl) {
-        castArgs.push("--rpc-url", rpcUrl);
+      if (extraArgs.length === 0) {
+        try {
+          const balance = await getBalance(endpoint.rpcUrl, address, blockNumber);
+          return jsonResponse({
+            tool: "cast_balance",
+            projectRoot: PROJECT_ROOT,
+            success: true,
+            rpcUrl: endpoint.rpcUrl,
+            rpcUrlSource: endpoint.source,
+            address,
+            blockNumber: blockNumber ?? "latest",
+            balanceWei: balance.wei,
+            balanceEther: balance.ether
+          });
+        } catch (err: any) {
+          return jsonResponse({
+            tool: "cast_balance",
+            projectRoot: PROJECT_ROOT,
+            success: false,
+            rpcUrl: endpoint.rpcUrl,
+            rpcUrlSource: endpoint.source,
+            address,
+            error: err.message
+          });
+        }
       }
+
+      const castArgs = ["balance", "--rpc-url", endpoint.rpcUrl];
       if (blockNumber) {
         castArgs.push("--block", blockNumber);
       }
@@ -278,24 +588,174 @@ export function registerCastTools(server: McpServer) {
 
       const result = await runCast(castArgs);
 
-      const payload = {
+      return jsonResponse({
         tool: "cast_balance",
         projectRoot: PROJECT_ROOT,
         success: result.success,
+        rpcUrl: endpoint.rpcUrl,
+        rpcUrlSource: endpoint.source,
         args: castArgs,
         stdout: result.stdout,
         stderr: result.stderr
-      };
+      });
+    }
+  );
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(payload, null, 2)
-          }
-        ],
-        structuredContent: payload
+  // --- Tool: cast_logs -------------------------------------
+  server.registerTool(
+    "cast_logs",
+    {
+      title: "Cast logs",
+      description:
+        "Query event logs (eth_getLogs) by contract address, event signature or project event name, indexed " +
+        "topic values and block range. Results are paginated and decoded into named arguments using project ABIs.",
+      inputSchema: {
+        address: z
+          .union([z.string(), z.array(z.string())])
+          .optional()
+          .describe("Emitting contract address(es)"),
+        event: z
+          .string()
+          .optional()
+          .describe("Event name from the project ABIs ('Transfer') or signature ('Transfer(address,address,uint256)')"),
+        indexedArgs: z
+          .record(z.string())
+          .optional()
+          .describe("Filter on indexed arguments by name, e.g. { \"to\": \"0x...\" } (requires event)"),
+        topics: z
+          .array(z.union([z.string(), z.array(z.string()), z.null()]))
+          .max(3)
+          .optional()
+          .describe("Raw filters for topics 1-3 (null = any, array = any of); addresses and numbers are padded"),
+        fromBlock: z
+          .union([z.string(), z.number()])
+          .optional()
+          .describe("First block, number or tag (default: the last blockRange blocks up to toBlock)"),
+        toBlock: z
+          .union([z.string(), z.number()])
+          .optional()
+          .describe("Last block, number or tag (default: latest)"),
+        blockRange: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe(`Maximum number of blocks scanned per call (default: ${DEFAULT_LOG_BLOCK_RANGE})`),
+        offset: z
+          .number()
+          .int()
+          .nonnegative()
+          .optional()
+          .describe("Matching logs in fromBlock to skip (use nextOffset from a previous call)"),
+        limit: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe(`Maximum number of logs to return (default: ${DEFAULT_LOG_PAGE_SIZE})`),
+        rpcUrl: z
+          .string()
+          .optional()
+          .describe("RPC URL (default: the running managed Anvil instance, else ETH_RPC_URL or localhost:8545)")
+      }
+    },
+    async ({ address, event, indexedArgs, topics, fromBlock, toBlock = "latest", blockRange = DEFAULT_LOG_BLOCK_RANGE, offset = 0, limit = DEFAULT_LOG_PAGE_SIZE, rpcUrl }) => {
+      const endpoint = resolveRpcUrl(rpcUrl);
+      if (endpoint.error) {
+        return jsonResponse({
+          tool: "cast_logs",
+          projectRoot: PROJECT_ROOT,
+          success: false,
+          error: endpoint.error
+        });
+      }
+
+      const index = loadAbiIndex();
+
+      const fail = (error: string) => jsonResponse({
+        tool: "cast_logs",
+        projectRoot: PROJECT_ROOT,
+        success: false,
+        rpcUrl: endpoint.rpcUrl,
+        rpcUrlSource: endpoint.source,
+        error
+      });
+
+      const events = event ? findEvents(index, event) : [];
+      if (typeof events === "string") {
+        return fail(events);
+      }
+      if (indexedArgs && events.length !== 1) {
+        return fail(events.length === 0
+          ? "indexedArgs requires an event"
+          : `'${event}' matches several events (${events.map(abiSignature).join(", ")}); pass the full signature`);
+      }
+
+      let argTopics: Array<string | string[] | null>;
+      let lastBlock: number;
+      let firstBlock: number;
+      try {
+        argTopics = indexedArgs
+          ? indexedArgTopics(events[0], indexedArgs)
+          : (topics ?? []).map(topic => topic === null ? null : Array.isArray(topic) ? topic.map(toTopic) : toTopic(topic));
+        lastBlock = await resolveBlockNumber(endpoint.rpcUrl, toBlock);
+        firstBlock = fromBlock === undefined
+          ? Math.max(0, lastBlock - blockRange + 1)
+          : await resolveBlockNumber(endpoint.rpcUrl, fromBlock);
+      } catch (err: any) {
+        return fail(err.message);
+      }
+
+      const selectors = [...new Set(events.map(item => toEventSelector(item)))];
+      const filterTopics = [selectors.length === 0 ? null : selectors.length === 1 ? selectors[0] : selectors, ...argTopics];
+      while (filterTopics.length > 0 && filterTopics[filterTopics.length - 1] === null) {
+        filterTopics.pop();
+      }
+
+      // Scan at most blockRange blocks; the page ends early when it fills up
+      const scanEnd = Math.min(lastBlock, firstBlock + blockRange - 1);
+      const filter = {
+        address,
+        topics: filterTopics,
+        fromBlock: toBlockParam(firstBlock),
+        toBlock: toBlockParam(scanEnd)
       };
+      const response = await rpcCall<any[]>(endpoint.rpcUrl, "eth_getLogs", [filter]);
+      if (!response.success) {
+        return fail(response.error ?? "eth_getLogs failed");
+      }
+
+      const matched = response.result ?? [];
+      const page = matched.slice(offset, offset + limit);
+      const logs = page.map(log => decodeLog(index, log, events));
+
+      // Resume inside the block of the last returned log, or after the scanned range
+      let nextFromBlock: number | null = null;
+      let nextOffset = 0;
+      if (offset + page.length < matched.length) {
+        const last = page[page.length - 1];
+        nextFromBlock = Number(last.blockNumber);
+        nextOffset = matched
+          .slice(0, offset + page.length)
+          .filter(log => Number(log.blockNumber) === nextFromBlock).length;
+      } else if (scanEnd < lastBlock) {
+        nextFromBlock = scanEnd + 1;
+      }
+
+      return jsonResponse({
+        tool: "cast_logs",
+        projectRoot: PROJECT_ROOT,
+        success: true,
+        rpcUrl: endpoint.rpcUrl,
+        rpcUrlSource: endpoint.source,
+        filter,
+        scannedBlocks: { from: firstBlock, to: scanEnd },
+        toBlock: lastBlock,
+        offset,
+        logs,
+        nextFromBlock,
+        nextOffset: nextFromBlock === null ? null : nextOffset
+      });
     }
   );
 
@@ -0,0 +1,200 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { jsonResponse } from "../utils.js";
+import { decodeCalldata, decodeLog, decodeReturnData, decodeRevert, indexSize, loadAbiIndex, lookupSelector } from "../abi.js";
+import { AbiIndex, DecodedCall } from "../types.js";
+
+const hexData = z
+  .string()
+  .regex(/^0x([0-9a-fA-F]{2})*$/, "Expected 0x-prefixed hex data");
+
+// Find the function whose outputs describe some return data, by calldata, full signature or bare name
+function resolveFunction(index: AbiIndex, signature?: string, calldata?: string, contract?: string): DecodedCall | string {
+  if (calldata) {
+    return decodeCalldata(index, calldata, name => name === contract) ?? `Calldata selector ${calldata.slice(0, 10)} is not in the index`;
+  }
+  if (!signature) {
+    return "Pass the function signature, name or the original calldata";
+  }
+
+  const wanted = signature.replace(/\s+/g, "");
+  const matches = [...index.functions]
+    .flatMap(([selector, entries]) => entries.map(entry => ({ selector, entry })))
+    .filter(({ entry }) => wanted.includes("(") ? entry.signature === wanted : entry.item.name === wanted)
+    .filter(({ entry }) => !contract || entry.contract === contract);
+
+  const signatures = [...new Set(matches.map(({ entry }) => entry.signature))];
+  if (signatures.length === 0) {
+    return `No indexed function matches '${signature}'${contract ? ` in ${contract}` : ""}`;
+  }
+  if (signatures.length > 1) {
+    return `'${signature}' is ambiguous: ${signatures.join(", ")}; pass the full signature`;
+  }
+
+  const { selector, entry } = matches[0];
+  return { selector, contract: entry.contract, name: entry.item.name, signature: entry.signature, args: null };
+}
+
+export function registerDecodeTools(server: McpServer) {
+  // --- Tool: abi_decode_calldata ---------------------------
+  server.registerTool(
+    "abi_decode_calldata",
+    {
+      title: "Decode calldata",
+      description:
+        "Decode transaction calldata into a function name and named arguments using every function selector " +
+        "in the project's out/ artifacts (including imported dependency contracts) and lib/<dep>/out builds.",
+      inputSchema: {
+        data: hexData.describe("Calldata, starting with the 4-byte selector"),
+        contract: z
+          .string()
+          .optional()
+          .describe("Prefer this contract's ABI when several contracts share the selector")
+      }
+    },
+    async ({ data, contract }) => {
+      const index = loadAbiIndex();
+      const decoded = data.length >= 10 ? decodeCalldata(index, data, name => name === contract) : null;
+
+      return jsonResponse({
+        tool: "abi_decode_calldata",
+        success: decoded !== null,
+        selector: data.slice(0, 10),
+        decoded,
+        candidates: data.length >= 10 ? lookupSelector(index, data.slice(0, 10)).functions : [],
+        indexed: indexSize(index),
+        ...(decoded ? {} : { error: "Selector not found in the project or dependency ABIs" })
+      });
+    }
+  );
+
+  // --- Tool: abi_decode_return_data ------------------------
+  server.registerTool(
+    "abi_decode_return_data",
+    {
+      title: "Decode return data",
+      description:
+        "Decode the return data of a call using the function's outputs. Identify the function by signature, " +
+        "name, or the calldata that produced the result.",
+      inputSchema: {
+        data: hexData.describe("Return data to decode"),
+        signature: z
+          .string()
+          .optional()
+          .describe("Function signature (e.g. 'balanceOf(address)') or name"),
+        calldata: hexData
+          .optional()
+          .describe("Calldata of the call that returned this data (alternative to signature)"),
+        contract: z
+          .string()
+          .optional()
+          .describe("Restrict the lookup to this contract")
+      }
+    },
+    async ({ data, signature, calldata, contract }) => {
+      const index = loadAbiIndex();
+      const call = resolveFunction(index, signature, calldata, contract);
+      if (typeof call === "string") {
+        return jsonResponse({ tool: "abi_decode_return_data", success: false, error: call });
+      }
+
+      const decoded = decodeReturnData(index, call, data);
+      return jsonResponse({
+        tool: "abi_decode_return_data",
+        success: decoded !== null,
+        contract: call.contract,
+        function: call.name,
+        signature: call.signature,
+        decoded,
+        ...(decoded === null ? { error: `Data does not match the outputs of ${call.signature}` } : {})
+      });
+    }
+  );
+
+  // --- Tool: abi_decode_revert -----------------------------
+  server.registerTool(
+    "abi_decode_revert",
+    {
+      title: "Decode revert data",
+      description:
+        "Decode revert data as Error(string), Panic(uint256) with the panic meaning, or a custom error from " +
+        "project and dependency ABIs.",
+      inputSchema: {
+        data: hexData.describe("Revert data, e.g. 0x08c379a0...")
+      }
+    },
+    async ({ data }) => {
+      const index = loadAbiIndex();
+      const revert = decodeRevert(index, data);
+
+      return jsonResponse({
+        tool: "abi_decode_revert",
+        success: revert.kind !== "unknown",
+        revert,
+        candidates: data.length >= 10 ? lookupSelector(index, data.slice(0, 10)).errors : []
+      });
+    }
+  );
+
+  // --- Tool: abi_decode_log --------------------------------
+  server.registerTool(
+    "abi_decode_log",
+    {
+      title: "Decode event log",
+      description: "Decode raw log topics and data into an event name and named arguments.",
+      inputSchema: {
+        topics: z
+          .array(z.string().regex(/^0x[0-9a-fA-F]{64}$/, "Expected a 32-byte topic"))
+          .min(1)
+          .describe("Log topics; topics[0] is the event signature hash"),
+        data: hexData
+          .optional()
+          .describe("Log data (default: 0x)"),
+        address: z
+          .string()
+          .optional()
+          .describe("Emitting contract address, echoed back in the result")
+      }
+    },
+    async ({ topics, data = "0x", address = "" }) => {
+      const index = loadAbiIndex();
+      const log = decodeLog(index, { address, topics, data });
+
+      return jsonResponse({
+        tool: "abi_decode_log",
+        success: log.event !== null,
+        log,
+        ...(log.event ? {} : { error: `No indexed event matches topic ${topics[0]}` })
+      });
+    }
+  );
+
+  // --- Tool: abi_lookup_selector ---------------------------
+  server.registerTool(
+    "abi_lookup_selector",
+    {
+      title: "Look up selector",
+      description:
+        "Find functions, errors and events whose selector or topic hash starts with the given hex " +
+        "(4-byte selectors, 32-byte event topics, or a prefix).",
+      inputSchema: {
+        selector: z
+          .string()
+          .regex(/^0x[0-9a-fA-F]+$/, "Expected 0x-prefixed hex")
+          .describe("Selector, topic hash or prefix")
+      }
+    },
+    async ({ selector }) => {
+      const index = loadAbiIndex();
+      const matches = lookupSelector(index, selector);
+
+      return jsonResponse({
+        tool: "abi_lookup_selector",
+        success: matches.functions.length + matches.events.length + matches.errors.length > 0,
+        selector,
+        ...matches,
+        indexed: indexSize(index)
+      });
+    }
+  );
+}
@@ -0,0 +1,568 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { isAddress, numberToHex, pad, parseUnits } from "viem";
+import { jsonResponse } from "../utils.js";
+import { rpcCall } from "../rpc.js";
+import { getAnvilInstance } from "./anvil.js";
+import { AnvilInstance } from "../types.js";
+
+function instanceNotFound(tool: string, name?: string) {
+  return jsonResponse({
+    tool,
+    success: false,
+    error: name
+      ? `No Anvil instance named '${name}' is running`
+      : "No managed Anvil instance is running. Start one with anvil_start or pass a name."
+  });
+}
+
+async function blockNumber(instance: AnvilInstance): Promise<number | null> {
+  const response = await rpcCall(instance.rpcUrl, "eth_blockNumber");
+  return response.success ? Number(BigInt(response.result)) : null;
+}
+
+async function latestBlock(instance: AnvilInstance) {
+  const [block, automine] = await Promise.all([
+    rpcCall(instance.rpcUrl, "eth_getBlockByNumber", ["latest", false]),
+    rpcCall(instance.rpcUrl, "anvil_getAutomine")
+  ]);
+  if (!block.success || !block.result) {
+    return null;
+  }
+  const timestamp = Number(BigInt(block.result.timestamp));
+  return {
+    number: Number(BigInt(block.result.number)),
+    hash: block.result.hash,
+    timestamp,
+    datetime: new Date(timestamp * 1000).toISOString(),
+    baseFeePerGas: block.result.baseFeePerGas ? BigInt(block.result.baseFeePerGas).toString() : null,
+    automine: automine.success ? automine.result : null
+  };
+}
+
+// Storage slots and values are sent as 32-byte words; accept decimal or shorter hex input
+function toWord(value: string): string {
+  const hex = value.startsWith("0x") ? value : numberToHex(BigInt(value));
+  return pad(hex as `0x${string}`, { size: 32 });
+}
+
+const address = z
+  .string()
+  .refine(value => isAddress(value, { strict: false }), "Invalid address");
+
+const instanceName = z
+  .string()
+  .optional()
+  .describe("Anvil instance to target (default: 'default', or the only running instance)");
+
+export function registerEvmTools(server: McpServer) {
+  // --- Tool: anvil_snapshot --------------------------------
+  server.registerTool(
+    "anvil_snapshot",
+    {
+      title: "Anvil snapshot",
+      description:
+        "Take a named EVM snapshot (`evm_snapshot`) of the managed Anvil node, e.g. 'after-deploy', " +
+        "so later transactions can be rolled back with anvil_revert.",
+      inputSchema: {
+        snapshotName: z
+          .string()
+          .describe("Name for the snapshot, e.g. 'after-deploy'"),
+        name: instanceName
+      }
+    },
+    async ({ snapshotName, name }) => {
+      const instance = getAnvilInstance(name);
+      if (!instance) {
+        return instanceNotFound("anvil_snapshot", name);
+      }
+
+      if (instance.snapshots.some(snapshot => snapshot.name === snapshotName)) {
+        return jsonResponse({
+          tool: "anvil_snapshot",
+          success: false,
+          error: `Snapshot '${snapshotName}' already exists on '${instance.name}'. Revert to it or choose another name.`
+        });
+      }
+
+      const response = await rpcCall(instance.rpcUrl, "evm_snapshot");
+      if (!response.success) {
+        return jsonResponse({ tool: "anvil_snapshot", success: false, error: response.error });
+      }
+
+      const snapshot = {
+        name: snapshotName,
+        id: String(response.result),
+        blockNumber: await blockNumber(instance),
+        createdAt: new Date().toISOString()
+      };
+      instance.snapshots.push(snapshot);
+
+      return jsonResponse({
+        tool: "anvil_snapshot",
+        success: true,
+        instance: instance.name,
+        snapshot,
+        stack: instance.snapshots.map(s => s.name)
+      });
+    }
+  );
+
+  // --- Tool: anvil_revert ----------------------------------
+  server.registerTool(
+    "anvil_revert",
+    {
+      title: "Anvil revert",
+      description:
+        "Revert the managed Anvil node to a named snapshot (`evm_revert`). Anvil discards the snapshot " +
+        "and every snapshot taken after it; pass keep: true to immediately re-take it so it can be reused.",
+      inputSchema: {
+        snapshotName: z
+          .string()
+          .optional()
+          .describe("Snapshot to revert to (default: the most recent one)"),
+        keep: z
+          .boolean()
+          .optional()
+          .describe("Re-take the snapshot under the same name after reverting (default: false)"),
+        name: instanceName
+      }
+    },
+    async ({ snapshotName, keep = false, name }) => {
+      const instance = getAnvilInstance(name);
+      if (!instance) {
+        return instanceNotFound("anvil_revert", name);
+      }
+
+      const index = snapshotName
+        ? instance.snapshots.findIndex(snapshot => snapshot.name === snapshotName)
+        : instance.snapshots.length - 1;
+      if (index === -1) {
+        return jsonResponse({
+          tool: "anvil_revert",
+          success: false,
+          error: snapshotName
+            ? `No snapshot named '${snapshotName}' on '${instance.name}'`
+            : `No snapshots have been taken on '${instance.name}'`,
+          stack: instance.snapshots.map(s => s.name)
+        });
+      }
+
+      const target = instance.snapshots[index];
+      const response = await rpcCall(instance.rpcUrl, "evm_revert", [target.id]);
+      if (!response.success || response.result !== true) {
+        return jsonResponse({
+          tool: "anvil_revert",
+          success: false,
+          error: response.error ?? `Anvil rejected snapshot id ${target.id}`
+        });
+      }
+
+      const discarded = instance.snapshots.splice(index).map(s => s.name);
+
+      if (keep) {
+        const retaken = await rpcCall(instance.rpcUrl, "evm_snapshot");
+        if (retaken.success) {
+          instance.snapshots.push({ ...target, id: String(retaken.result), createdAt: new Date().toISOString() });
+        }
+      }
+
+      return jsonResponse({
+        tool: "anvil_revert",
+        success: true,
+        instance: instance.name,
+        revertedTo: target,
+        blockNumber: await blockNumber(instance),
+        discarded: keep ? discarded.slice(1) : discarded,
+        stack: instance.snapshots.map(s => s.name)
+      });
+    }
+  );
+
+  // --- Tool: anvil_snapshot_list ---------------------------
+  server.registerTool(
+    "anvil_snapshot_list",
+    {
+      title: "Anvil snapshot list",
+      description: "List the named snapshot stack of a managed Anvil node, oldest first.",
+      inputSchema: {
+        name: instanceName
+      }
+    },
+    async ({ name }) => {
+      const instance = getAnvilInstance(name);
+      if (!instance) {
+        return instanceNotFound("anvil_snapshot_list", name);
+      }
+
+      return jsonResponse({
+        tool: "anvil_snapshot_list",
+        success: true,
+        instance: instance.name,
+        snapshots: instance.snapshots
+      });
+    }
+  );
+
+  // --- Tool: anvil_increase_time ---------------------------
+  server.registerTool(
+    "anvil_increase_time",
+    {
+      title: "Anvil increase time",
+      description:
+        "Advance the managed Anvil node's clock (`evm_increaseTime`), optionally mining a block so the new time takes effect.",
+      inputSchema: {
+        seconds: z
+          .number()
+          .int()
+          .positive()
+          .describe("Seconds to move time forward, e.g. 86400 for one day"),
+        mine: z
+          .boolean()
+          .optional()
+          .describe("Mine a block afterwards so block.timestamp reflects the change (default: true)"),
+        name: instanceName
+      }
+    },
+    async ({ seconds, mine = true, name }) => {
+      const instance = getAnvilInstance(name);
+      if (!instance) {
+        return instanceNotFound("anvil_increase_time", name);
+      }
+
+      const response = await rpcCall(instance.rpcUrl, "evm_increaseTime", [seconds]);
+      if (!response.success) {
+        return jsonResponse({ tool: "anvil_increase_time", success: false, error: response.error });
+      }
+      if (mine) {
+        await rpcCall(instance.rpcUrl, "evm_mine");
+      }
+
+      return jsonResponse({
+        tool: "anvil_increase_time",
+        success: true,
+        instance: instance.name,
+        increasedBy: seconds,
+        mined: mine,
+        latestBlock: await latestBlock(instance)
+      });
+    }
+  );
+
+  // --- Tool: anvil_set_next_block_timestamp ----------------
+  server.registerTool(
+    "anvil_set_next_block_timestamp",
+    {
+      title: "Anvil set next block timestamp",
+      description:
+        "Set the exact timestamp of the next block (`evm_setNextBlockTimestamp`), optionally mining it right away.",
+      inputSchema: {
+        timestamp: z
+          .number()
+          .int()
+          .describe("Unix timestamp in seconds; must be later than the latest block's timestamp"),
+        mine: z
+          .boolean()
+          .optional()
+          .describe("Mine the block immediately (default: false)"),
+        name: instanceName
+      }
+    },
+    async ({ timestamp, mine = false, name }) => {
+      const instance = getAnvilInstance(name);
+      if (!instance) {
+        return instanceNotFound("anvil_set_next_block_timestamp", name);
+      }
+
+      const response = await rpcCall(instance.rpcUrl, "evm_setNextBlockTimestamp", [timestamp]);
+      if (!response.success) {
+        return jsonResponse({ tool: "anvil_set_next_block_timestamp", success: false, error: response.error });
+      }
+      if (mine) {
+        await rpcCall(instance.rpcUrl, "evm_mine");
+      }
+
+      return jsonResponse({
+        tool: "anvil_set_next_block_timestamp",
+        success: true,
+        instance: instance.name,
+        nextBlockTimestamp: timestamp,
+        mined: mine,
+        latestBlock: await latestBlock(instance)
+      });
+    }
+  );
+
+  // --- Tool: anvil_mine ------------------------------------
+  server.registerTool(
+    "anvil_mine",
+    {
+      title: "Anvil mine",
+      description: "Mine one or more blocks on the managed Anvil node (`anvil_mine`), optionally spaced by an interval.",
+      inputSchema: {
+        blocks: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Number of blocks to mine (default: 1)"),
+        intervalSeconds: z
+          .number()
+          .int()
+          .nonnegative()
+          .optional()
+          .describe("Seconds between the mined blocks' timestamps"),
+        name: instanceName
+      }
+    },
+    async ({ blocks = 1, intervalSeconds, name }) => {
+      const instance = getAnvilInstance(name);
+      if (!instance) {
+        return instanceNotFound("anvil_mine", name);
+      }
+
+      const before = await blockNumber(instance);
+      const params = [`0x${blocks.toString(16)}`];
+      if (intervalSeconds !== undefined) {
+        params.push(`0x${intervalSeconds.toString(16)}`);
+      }
+
+      const response = await rpcCall(instance.rpcUrl, "anvil_mine", params);
+      if (!response.success) {
+        return jsonResponse({ tool: "anvil_mine", success: false, error: response.error });
+      }
+
+      return jsonResponse({
+        tool: "anvil_mine",
+        success: true,
+        instance: instance.name,
+        blocksMined: blocks,
+        previousBlockNumber: before,
+        latestBlock: await latestBlock(instance)
+      });
+    }
+  );
+
+  // --- Tool: anvil_set_mining ------------------------------
+  server.registerTool(
+    "anvil_set_mining",
+    {
+      title: "Anvil set mining mode",
+      description:
+        "Toggle automine (`evm_setAutomine`) and/or set an interval mining period in seconds (`evm_setIntervalMining`, 0 disables it).",
+      inputSchema: {
+        automine: z
+          .boolean()
+          .optional()
+          .describe("Mine a block for every transaction"),
+        intervalSeconds: z
+          .number()
+          .int()
+          .nonnegative()
+          .optional()
+          .describe("Mine a block every N seconds; 0 disables interval mining"),
+        name: instanceName
+      }
+    },
+    async ({ automine, intervalSeconds, name }) => {
+      const instance = getAnvilInstance(name);
+      if (!instance) {
+        return instanceNotFound("anvil_set_mining", name);
+      }
+
+      if (automine === undefined && intervalSeconds === undefined) {
+        return jsonResponse({
+          tool: "anvil_set_mining",
+          success: false,
+          error: "Pass automine and/or intervalSeconds"
+        });
+      }
+
+      if (automine !== undefined) {
+        const response = await rpcCall(instance.rpcUrl, "evm_setAutomine", [automine]);
+        if (!response.success) {
+          return jsonResponse({ tool: "anvil_set_mining", success: false, error: response.error });
+        }
+      }
+      if (intervalSeconds !== undefined) {
+        const response = await rpcCall(instance.rpcUrl, "evm_setIntervalMining", [intervalSeconds]);
+        if (!response.success) {
+          return jsonResponse({ tool: "anvil_set_mining", success: false, error: response.error });
+        }
+      }
+
+      const current = await rpcCall(instance.rpcUrl, "anvil_getAutomine");
+
+      return jsonResponse({
+        tool: "anvil_set_mining",
+        success: true,
+        instance: instance.name,
+        automine: current.success ? current.result : automine ?? null,
+        intervalSeconds: intervalSeconds ?? null
+      });
+    }
+  );
+
+  // --- Tool: anvil_block_info ------------------------------
+  server.registerTool(
+    "anvil_block_info",
+    {
+      title: "Anvil block info",
+      description: "Read the managed Anvil node's current block number, timestamp and mining mode.",
+      inputSchema: {
+        name: instanceName
+      }
+    },
+    async ({ name }) => {
+      const instance = getAnvilInstance(name);
+      if (!instance) {
+        return instanceNotFound("anvil_block_info", name);
+      }
+
+      const block = await latestBlock(instance);
+
+      return jsonResponse({
+        tool: "anvil_block_info",
+        success: block !== null,
+        instance: instance.name,
+        latestBlock: block
+      });
+    }
+  );
+
+  // --- Tool: anvil_set_account -----------------------------
+  server.registerTool(
+    "anvil_set_account",
+    {
+      title: "Anvil set account state",
+      description:
+        "Overwrite an account's balance, code, nonce and/or storage slots on the managed Anvil node " +
+        "(`anvil_setBalance`, `anvil_setCode`, `anvil_setNonce`, `anvil_setStorageAt`).",
+      inputSchema: {
+        address: address.describe("Account to modify"),
+        balance: z
+          .string()
+          .optional()
+          .describe("New balance, in the unit given by balanceUnit"),
+        balanceUnit: z
+          .enum(["wei", "gwei", "ether"])
+          .optional()
+          .describe("Unit of balance (default: wei)"),
+        code: z
+          .string()
+          .optional()
+          .describe("Runtime bytecode to install (hex)"),
+        nonce: z
+          .number()
+          .int()
+          .nonnegative()
+          .optional()
+          .describe("New account nonce"),
+        storage: z
+          .array(z.object({
+            slot: z.string().describe("Storage slot (decimal or hex)"),
+            value: z.string().describe("32-byte value (decimal or hex)")
+          }))
+          .optional()
+          .describe("Storage slots to overwrite"),
+        name: instanceName
+      }
+    },
+    async ({ address, balance, balanceUnit = "wei", code, nonce, storage = [], name }) => {
+      const instance = getAnvilInstance(name);
+      if (!instance) {
+        return instanceNotFound("anvil_set_account", name);
+      }
+
+      const calls: Array<[string, any[]]> = [];
+      try {
+        if (balance !== undefined) {
+          const wei = balanceUnit === "wei" ? BigInt(balance) : parseUnits(balance, balanceUnit === "gwei" ? 9 : 18);
+          calls.push(["anvil_setBalance", [address, numberToHex(wei)]]);
+        }
+        if (code !== undefined) {
+          calls.push(["anvil_setCode", [address, code.startsWith("0x") ? code : `0x${code}`]]);
+        }
+        if (nonce !== undefined) {
+          calls.push(["anvil_setNonce", [address, numberToHex(nonce)]]);
+        }
+        for (const entry of storage) {
+          calls.push(["anvil_setStorageAt", [address, toWord(entry.slot), toWord(entry.value)]]);
+        }
+      } catch (err: any) {
+        return jsonResponse({ tool: "anvil_set_account", success: false, error: err.message });
+      }
+
+      if (calls.length === 0) {
+        return jsonResponse({
+          tool: "anvil_set_account",
+          success: false,
+          error: "Nothing to change; pass balance, code, nonce and/or storage"
+        });
+      }
+
+      const applied = [];
+      for (const [method, params] of calls) {
+        const response = await rpcCall(instance.rpcUrl, method, params);
+        applied.push({ method, params: params.slice(1), success: response.success, error: response.error });
+        if (!response.success) {
+          break;
+        }
+      }
+
+      return jsonResponse({
+        tool: "anvil_set_account",
+        success: applied.every(call => call.success) && applied.length === calls.length,
+        instance: instance.name,
+        address,
+        applied
+      });
+    }
+  );
+
+  // --- Tool: anvil_impersonate -----------------------------
+  server.registerTool(
+    "anvil_impersonate",
+    {
+      title: "Anvil impersonate account",
+      description:
+        "Start or stop impersonating an address on the managed Anvil node. While impersonated, " +
+        "cast_send can send from that address without a private key.",
+      inputSchema: {
+        address: address.describe("Address to impersonate"),
+        action: z
+          .enum(["start", "stop"])
+          .optional()
+          .describe("'start' or 'stop' impersonating (default: start)"),
+        name: instanceName
+      }
+    },
+    async ({ address, action = "start", name }) => {
+      const instance = getAnvilInstance(name);
+      if (!instance) {
+        return instanceNotFound("anvil_impersonate", name);
+      }
+
+      const method = action === "start" ? "anvil_impersonateAccount" : "anvil_stopImpersonatingAccount";
+      const response = await rpcCall(instance.rpcUrl, method, [address]);
+      if (!response.success) {
+        return jsonResponse({ tool: "anvil_impersonate", success: false, error: response.error });
+      }
+
+      const normalized = address.toLowerCase();
+      instance.impersonatedAccounts = instance.impersonatedAccounts.filter(account => account !== normalized);
+      if (action === "start") {
+        instance.impersonatedAccounts.push(normalized);
+      }
+
+      return jsonResponse({
+        tool: "anvil_impersonate",
+        success: true,
+        instance: instance.name,
+        address,
+        action,
+        impersonatedAccounts: instance.impersonatedAccounts
+      });
+    }
+  );
+}
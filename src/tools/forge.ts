@@ -1,6 +1,542 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { runForge, PROJECT_ROOT } from "../utils.js";
+import { readFileSync, existsSync, readdirSync, statSync } from "node:fs";
+import path from "node:path";
+import { runForge, parseJsonOutput, PROJECT_ROOT } from "../utils.js";
+import { formatUnifiedDiff, markMissingNewline } from "../diff.js";
+import { recordCounterexamples } from "../counterexamples.js";
+import {
+  findArtifact,
+  listArtifacts,
+  loadArtifact,
+  bytecodeSize,
+  errorSelectors,
+  eventSelectors,
+  methodSelectors,
+  forgeInspect
+} from "../artifacts.js";
+import {
+  CompiledContract,
+  CompilerDiagnostic,
+  ContractCoverage,
+  ContractSize,
+  CoverageMetric,
+  CoverageSummary,
+  DiffHunk,
+  FileCoverage,
+  ForgeCounterexample,
+  ForgeCounterexampleCall,
+  ForgeTestCase,
+  ForgeTestKind,
+  ForgeTestStatus,
+  ForgeTestSuite,
+  ForgeTestSummary,
+  LineRange,
+  LintFinding,
+  LintSeverity,
+  SourcePosition
+} from "../types.js";
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  s: 1000,
+  ms: 1,
+  "µs": 0.001,
+  us: 0.001,
+  ns: 0.000001
+};
+
+// Forge serializes durations either as { secs, nanos } or as text like "1ms 250µs 3ns"
+function parseDuration(value: any): number | null {
+  if (value && typeof value === "object" && "secs" in value) {
+    return value.secs * 1000 + (value.nanos ?? 0) / 1e6;
+  }
+  if (typeof value === "string") {
+    let total = 0;
+    let matched = false;
+    for (const [, amount, unit] of value.matchAll(/([0-9.]+)\s*(ms|µs|us|ns|s)/g)) {
+      total += parseFloat(amount) * DURATION_UNITS_MS[unit];
+      matched = true;
+    }
+    return matched ? total : null;
+  }
+  return null;
+}
+
+function parseCounterexampleCall(raw: any): ForgeCounterexampleCall {
+  return {
+    sender: raw?.sender ?? null,
+    target: raw?.addr ?? null,
+    calldata: raw?.calldata ?? "0x",
+    contractName: raw?.contract_name ?? null,
+    functionName: raw?.func_name ?? null,
+    signature: raw?.signature ?? null,
+    args: raw?.args ?? null
+  };
+}
+
+function parseCounterexample(raw: any): ForgeCounterexample | null {
+  if (!raw) {
+    return null;
+  }
+  if (raw.Single) {
+    return { type: "single", calls: [parseCounterexampleCall(raw.Single)] };
+  }
+  if (raw.Sequence) {
+    // Newer forge versions serialize sequences as [originalLength, calls]
+    const calls = Array.isArray(raw.Sequence) && typeof raw.Sequence[0] === "number"
+      ? raw.Sequence[1]
+      : raw.Sequence;
+    return { type: "sequence", calls: (calls ?? []).map(parseCounterexampleCall) };
+  }
+  return null;
+}
+
+function parseTestCase(name: string, raw: any): ForgeTestCase {
+  const status = (String(raw.status ?? "").toLowerCase() || "failure") as ForgeTestStatus;
+  const kindKey = raw.kind ? Object.keys(raw.kind)[0] : "Unit";
+  const kindData = raw.kind?.[kindKey] ?? {};
+  const kind = (kindKey?.toLowerCase() ?? "unit") as ForgeTestKind;
+
+  const testCase: ForgeTestCase = {
+    name,
+    status,
+    kind,
+    gas: null,
+    durationMs: parseDuration(raw.duration),
+    logs: raw.decoded_logs ?? [],
+    reason: raw.reason ?? null,
+    counterexample: parseCounterexample(raw.counterexample)
+  };
+
+  if (kind === "unit") {
+    testCase.gas = kindData.gas ?? null;
+  } else if (kind === "fuzz") {
+    testCase.gas = kindData.median_gas ?? null;
+    testCase.fuzz = {
+      runs: kindData.runs ?? 0,
+      meanGas: kindData.mean_gas ?? 0,
+      medianGas: kindData.median_gas ?? 0
+    };
+  } else if (kind === "invariant") {
+    testCase.invariant = {
+      runs: kindData.runs ?? 0,
+      calls: kindData.calls ?? 0,
+      reverts: kindData.reverts ?? 0
+    };
+  }
+
+  return testCase;
+}
+
+// Convert `forge test --json` output into per-suite results and summary counts
+export function parseForgeTestJson(output: any): { suites: ForgeTestSuite[]; summary: ForgeTestSummary } {
+  const suites: ForgeTestSuite[] = [];
+
+  for (const [id, rawSuite] of Object.entries<any>(output ?? {})) {
+    const separator = id.lastIndexOf(":");
+    const tests = Object.entries<any>(rawSuite.test_results ?? {}).map(([name, raw]) =>
+      parseTestCase(name, raw)
+    );
+
+    suites.push({
+      id,
+      path: separator === -1 ? id : id.slice(0, separator),
+      contract: separator === -1 ? id : id.slice(separator + 1),
+      durationMs: parseDuration(rawSuite.duration),
+      warnings: rawSuite.warnings ?? [],
+      passed: tests.filter(t => t.status === "success").length,
+      failed: tests.filter(t => t.status === "failure").length,
+      skipped: tests.filter(t => t.status === "skipped").length,
+      tests
+    });
+  }
+
+  const summary: ForgeTestSummary = {
+    suites: suites.length,
+    tests: suites.reduce((sum, suite) => sum + suite.tests.length, 0),
+    passed: suites.reduce((sum, suite) => sum + suite.passed, 0),
+    failed: suites.reduce((sum, suite) => sum + suite.failed, 0),
+    skipped: suites.reduce((sum, suite) => sum + suite.skipped, 0),
+    durationMs: suites.reduce((sum, suite) => sum + (suite.durationMs ?? 0), 0)
+  };
+
+  return { suites, summary };
+}
+
+// Translate a solc byte offset into a 1-based line/column position
+function offsetToPosition(source: Buffer, offset: number): SourcePosition {
+  const before = source.subarray(0, Math.min(offset, source.length));
+  const lineStart = before.lastIndexOf(0x0a) + 1;
+  let line = 1;
+  for (const byte of before) {
+    if (byte === 0x0a) line++;
+  }
+  return { line, column: before.subarray(lineStart).toString("utf8").length + 1 };
+}
+
+function parseDiagnostic(raw: any, sources: Map<string, Buffer | null>): CompilerDiagnostic {
+  const location = raw.sourceLocation;
+  const file: string | null = location?.file ?? null;
+  let start: SourcePosition | null = null;
+  let end: SourcePosition | null = null;
+
+  if (file && location.start >= 0) {
+    if (!sources.has(file)) {
+      try {
+        sources.set(file, readFileSync(path.resolve(PROJECT_ROOT, file)));
+      } catch {
+        sources.set(file, null);
+      }
+    }
+    const source = sources.get(file);
+    if (source) {
+      start = offsetToPosition(source, location.start);
+      end = offsetToPosition(source, location.end ?? location.start);
+    }
+  }
+
+  // Fall back to the "--> file:line:col:" marker when the source file can't be read
+  if (!start && raw.formattedMessage) {
+    const match = raw.formattedMessage.match(/-->\s*([^:\s]+):(\d+):(\d+)/);
+    if (match) {
+      start = { line: parseInt(match[2]), column: parseInt(match[3]) };
+    }
+  }
+
+  const severity = String(raw.severity ?? "error").toLowerCase();
+
+  return {
+    severity: severity === "warning" || severity === "info" ? severity : "error",
+    type: raw.type ?? "Error",
+    errorCode: raw.errorCode ?? null,
+    file,
+    start,
+    end,
+    message: raw.message ?? "",
+    formattedMessage: raw.formattedMessage ?? null
+  };
+}
+
+// Extract diagnostics and compiled contract names from `forge build --json` output
+export function parseForgeBuildJson(output: any): { diagnostics: CompilerDiagnostic[]; contracts: CompiledContract[] } {
+  const sources = new Map<string, Buffer | null>();
+  const diagnostics = (output?.errors ?? []).map((raw: any) => parseDiagnostic(raw, sources));
+
+  const contracts: CompiledContract[] = [];
+  for (const [file, byName] of Object.entries<any>(output?.contracts ?? {})) {
+    for (const name of Object.keys(byName ?? {})) {
+      contracts.push({ file, name });
+    }
+  }
+
+  return { diagnostics, contracts };
+}
+
+interface LcovRecord {
+  file: string;
+  lines: Map<number, number>;
+  functions: Array<{ name: string; line: number; hits: number }>;
+  branches: Array<{ line: number; taken: number }>;
+}
+
+// Parse an lcov tracefile into one record per source file
+function parseLcov(text: string): LcovRecord[] {
+  const records: LcovRecord[] = [];
+  let current: LcovRecord | null = null;
+  const functionHits = new Map<string, number>();
+
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.trim();
+    const colon = line.indexOf(":");
+    const tag = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? "" : line.slice(colon + 1);
+
+    if (tag === "SF") {
+      current = { file: value, lines: new Map(), functions: [], branches: [] };
+      functionHits.clear();
+    } else if (!current) {
+      continue;
+    } else if (tag === "DA") {
+      const [lineNo, hits] = value.split(",");
+      current.lines.set(parseInt(lineNo), parseInt(hits));
+    } else if (tag === "FN") {
+      // Both "FN:<line>,<name>" and lcov 2.0 "FN:<start>,<end>,<name>" are emitted by forge
+      const parts = value.split(",");
+      current.functions.push({ name: parts[parts.length - 1], line: parseInt(parts[0]), hits: 0 });
+    } else if (tag === "FNDA") {
+      const [hits, name] = value.split(",");
+      functionHits.set(name, parseInt(hits));
+    } else if (tag === "BRDA") {
+      const [lineNo, , , taken] = value.split(",");
+      current.branches.push({ line: parseInt(lineNo), taken: taken === "-" ? 0 : parseInt(taken) });
+    } else if (tag === "end_of_record") {
+      for (const fn of current.functions) {
+        fn.hits = functionHits.get(fn.name) ?? 0;
+      }
+      records.push(current);
+      current = null;
+    }
+  }
+
+  return records;
+}
+
+function metric(found: number, hit: number): CoverageMetric {
+  return {
+    found,
+    hit,
+    percent: found === 0 ? null : Math.round((hit / found) * 10000) / 100
+  };
+}
+
+function uncoveredRanges(lines: Map<number, number>): LineRange[] {
+  const ranges: LineRange[] = [];
+  const missed = [...lines.entries()].filter(([, hits]) => hits === 0).map(([line]) => line).sort((a, b) => a - b);
+  for (const line of missed) {
+    const last = ranges[ranges.length - 1];
+    if (last && line === last.end + 1) {
+      last.end = line;
+    } else {
+      ranges.push({ start: line, end: line });
+    }
+  }
+  return ranges;
+}
+
+function summarize(record: Pick<LcovRecord, "lines" | "functions" | "branches">): CoverageSummary {
+  const lineHits = [...record.lines.values()];
+  return {
+    lines: metric(lineHits.length, lineHits.filter(hits => hits > 0).length),
+    branches: metric(record.branches.length, record.branches.filter(b => b.taken > 0).length),
+    functions: metric(record.functions.length, record.functions.filter(f => f.hits > 0).length)
+  };
+}
+
+// lcov has no notion of contracts, so attribute each line to the closest preceding declaration
+function splitByContract(record: LcovRecord): ContractCoverage[] {
+  let declarations: Array<{ name: string; line: number }> = [];
+  try {
+    const source = readFileSync(path.resolve(PROJECT_ROOT, record.file), "utf8").split("\n");
+    source.forEach((text, index) => {
+      const match = text.match(/^\s*(?:abstract\s+)?(?:contract|library|interface)\s+(\w+)/);
+      if (match) {
+        declarations.push({ name: match[1], line: index + 1 });
+      }
+    });
+  } catch {
+    declarations = [];
+  }
+
+  const contractAt = (line: number): string => {
+    let name = "<file>";
+    for (const declaration of declarations) {
+      if (declaration.line <= line) name = declaration.name;
+    }
+    return name;
+  };
+
+  const groups = new Map<string, Pick<LcovRecord, "lines" | "functions" | "branches">>();
+  const group = (name: string) => {
+    if (!groups.has(name)) {
+      groups.set(name, { lines: new Map(), functions: [], branches: [] });
+    }
+    return groups.get(name)!;
+  };
+
+  for (const [line, hits] of record.lines) {
+    group(contractAt(line)).lines.set(line, hits);
+  }
+  for (const fn of record.functions) {
+    group(contractAt(fn.line)).functions.push(fn);
+  }
+  for (const branch of record.branches) {
+    group(contractAt(branch.line)).branches.push(branch);
+  }
+
+  return [...groups.entries()].map(([contract, data]) => ({
+    file: record.file,
+    contract,
+    ...summarize(data),
+    uncoveredLines: uncoveredRanges(data.lines)
+  }));
+}
+
+const INSPECT_FIELDS = ["abi", "methodIdentifiers", "events", "errors", "storageLayout", "sizes", "metadata"] as const;
+
+// EIP-170 runtime code and EIP-3860 initcode size limits
+const RUNTIME_SIZE_LIMIT = 24_576;
+const INITCODE_SIZE_LIMIT = 49_152;
+
+function contractSize(name: string, runtimeSize: number, initcodeSize: number): ContractSize {
+  return {
+    name,
+    runtimeSize,
+    initcodeSize,
+    runtimeMargin: RUNTIME_SIZE_LIMIT - runtimeSize,
+    initcodeMargin: INITCODE_SIZE_LIMIT - initcodeSize,
+    withinLimits: runtimeSize <= RUNTIME_SIZE_LIMIT && initcodeSize <= INITCODE_SIZE_LIMIT
+  };
+}
+
+// Sizes from `forge build --sizes --json`, or from the freshly written artifacts if that isn't parseable
+function parseContractSizes(output: any): ContractSize[] {
+  if (output && typeof output === "object" && !Array.isArray(output)) {
+    return Object.entries<any>(output)
+      .filter(([, sizes]) => typeof sizes?.runtime_size === "number")
+      .map(([name, sizes]) => contractSize(name, sizes.runtime_size, sizes.init_size ?? 0));
+  }
+
+  return listArtifacts()
+    .map(loadArtifact)
+    .filter(artifact => !/\.(t|s)\.sol$/.test(artifact.sourceFile))
+    .filter(artifact => bytecodeSize(artifact.deployedBytecode) > 0)
+    .map(artifact =>
+      contractSize(artifact.name, bytecodeSize(artifact.deployedBytecode), bytecodeSize(artifact.bytecode))
+    );
+}
+
+// Expand files and directories (relative to the project root) into the Solidity files they contain
+function collectSolidityFiles(paths: string[]): string[] {
+  const files = new Set<string>();
+  const visit = (relative: string) => {
+    const absolute = path.resolve(PROJECT_ROOT, relative);
+    if (!existsSync(absolute)) {
+      return;
+    }
+    if (statSync(absolute).isDirectory()) {
+      for (const entry of readdirSync(absolute)) {
+        if (entry !== "node_modules" && !entry.startsWith(".")) {
+          visit(path.join(relative, entry));
+        }
+      }
+    } else if (relative.endsWith(".sol")) {
+      files.add(path.normalize(relative));
+    }
+  };
+  paths.forEach(visit);
+  return [...files].sort();
+}
+
+type FmtDiffRow = { oldLine: number | null; newLine: number | null; line: string };
+
+function fmtHunk(rows: FmtDiffRow[]): DiffHunk {
+  const oldRows = rows.filter(row => row.oldLine !== null);
+  const newRows = rows.filter(row => row.newLine !== null);
+  return {
+    oldStart: oldRows[0]?.oldLine ?? 0,
+    oldLines: oldRows.length,
+    newStart: newRows[0]?.newLine ?? 0,
+    newLines: newRows.length,
+    lines: rows.map(row => row.line)
+  };
+}
+
+// `forge fmt --check` prints "Diff in <file>:" followed by "<old> <new> |<sign><line>" rows, hunks split by a dashed rule
+function parseFmtCheckOutput(output: string): Map<string, DiffHunk[]> {
+  const files = new Map<string, DiffHunk[]>();
+  let hunks: DiffHunk[] | null = null;
+  let rows: FmtDiffRow[] = [];
+  const flush = () => {
+    if (hunks && rows.length > 0) {
+      hunks.push(fmtHunk(rows));
+    }
+    rows = [];
+  };
+
+  for (const raw of output.replace(/\x1b\[[0-9;]*m/g, "").split(/\r?\n/)) {
+    const header = raw.match(/^Diff in (.+):$/);
+    const row = raw.match(/^(?:(\d+)\s*|\s{4})(?:(\d+)\s*|\s{4}) \|([-+ ])(.*)$/);
+    if (header) {
+      flush();
+      hunks = [];
+      files.set(path.relative(PROJECT_ROOT, path.resolve(PROJECT_ROOT, header[1])), hunks);
+    } else if (row && hunks) {
+      rows.push({
+        oldLine: row[1] ? Number(row[1]) : null,
+        newLine: row[2] ? Number(row[2]) : null,
+        line: row[3] + row[4]
+      });
+    } else if (/^-{20,}$/.test(raw)) {
+      flush();
+    }
+  }
+  flush();
+  return files;
+}
+
+const LINT_SEVERITIES = ["high", "med", "low", "info", "gas"] as const;
+
+// Forge's JSON diagnostics don't carry the lint severity, so map the known lint IDs
+const KNOWN_LINT_SEVERITIES: Record<string, LintSeverity> = {
+  "incorrect-shift": "high",
+  "unchecked-call": "high",
+  "erc20-unchecked-transfer": "high",
+  "divide-before-multiply": "med",
+  "unsafe-typecast": "med",
+  "mixed-case-function": "info",
+  "mixed-case-variable": "info",
+  "pascal-case-struct": "info",
+  "screaming-snake-case-const": "info",
+  "screaming-snake-case-immutable": "info",
+  "unused-import": "info",
+  "unaliased-plain-import": "info",
+  "named-struct-fields": "info",
+  "unsafe-cheatcode": "info",
+  "multi-contract-file": "info",
+  "asm-keccak256": "gas",
+  "unwrapped-modifier-logic": "gas",
+  "custom-errors": "gas",
+  "var-read-using-this": "gas"
+};
+
+// Read `exclude_lints` from the [lint] section of foundry.toml
+function readExcludedLints(): string[] {
+  try {
+    const toml = readFileSync(path.join(PROJECT_ROOT, "foundry.toml"), "utf8");
+    const section = toml.split(/^\s*\[/m).find(block => /^(profile\.default\.)?lint\]/.test(block));
+    const match = section?.match(/exclude_lints\s*=\s*\[([^\]]*)\]/);
+    return match ? [...match[1].matchAll(/["']([^"']+)["']/g)].map(m => m[1]) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Parse the rustc-style JSON diagnostics `forge lint --json` prints, one object per line
+function parseLintOutput(output: string): LintFinding[] {
+  const findings: LintFinding[] = [];
+
+  for (const line of output.split("\n")) {
+    if (!line.trim().startsWith("{")) {
+      continue;
+    }
+
+    let raw: any;
+    try {
+      raw = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    if (!raw.code?.code) {
+      continue;
+    }
+
+    const span = (raw.spans ?? []).find((s: any) => s.is_primary) ?? raw.spans?.[0];
+    const help = (raw.children ?? []).find((child: any) => child.level === "help")?.message ?? null;
+
+    findings.push({
+      lintId: raw.code.code,
+      severity: KNOWN_LINT_SEVERITIES[raw.code.code] ?? null,
+      level: raw.level ?? "warning",
+      file: span?.file_name ?? null,
+      start: span ? { line: span.line_start, column: span.column_start } : null,
+      end: span ? { line: span.line_end, column: span.column_end } : null,
+      message: raw.message ?? "",
+      help
+    });
+  }
+
+  return findings;
+}
 
 export function registerForgeTools(server: McpServer) {
   // --- Tool: forge_build -----------------------------------
@@ -9,20 +545,26 @@ export function registerForgeTools(server: McpServer) {
     {
       title: "Forge build",
       description:
-        "Run `forge build` in the current Foundry project to compile contracts.",
+        "Run `forge build` in the current Foundry project to compile contracts. Returns compiler " +
+        "diagnostics (severity, error code, file, line/column range, message) grouped by source file " +
+        "and the list of compiled contracts.",
       inputSchema: {
         profile: z
           .string()
           .optional()
           .describe("Optional Foundry profile to use"),
+        includeRawOutput: z
+          .boolean()
+          .optional()
+          .describe("Include raw forge stdout/stderr in the result (default: false)"),
         extraArgs: z
           .array(z.string())
           .optional()
           .describe("Additional forge build CLI flags")
       },
     },
-    async ({ profile, extraArgs = [] }) => {
-      const args = ["build"];
+    async ({ profile, includeRawOutput = false, extraArgs = [] }) => {
+      const args = ["build", "--json"];
 
       if (profile) {
         args.push("--profile", profile);
@@ -30,14 +572,176 @@ export function registerForgeTools(server: McpServer) {
       args.push(...extraArgs);
 
       const result = await runForge(args);
+      const output = parseJsonOutput(result.stdout);
+      const { diagnostics, contracts } = parseForgeBuildJson(output);
 
-      const payload = {
+      const diagnosticsByFile: Record<string, CompilerDiagnostic[]> = {};
+      for (const diagnostic of diagnostics) {
+        const key = diagnostic.file ?? "<unknown>";
+        (diagnosticsByFile[key] ??= []).push(diagnostic);
+      }
+
+      const errorCount = diagnostics.filter(d => d.severity === "error").length;
+
+      const payload: Record<string, any> = {
         tool: "forge_build",
         projectRoot: PROJECT_ROOT,
-        success: result.success,
+        success: result.success && errorCount === 0,
         args,
-        stdout: result.stdout,
-        stderr: result.stderr
+        errorCount,
+        warningCount: diagnostics.filter(d => d.severity === "warning").length,
+        diagnosticsByFile,
+        compiledContracts: contracts
+      };
+
+      if (includeRawOutput || output === null) {
+        payload.stdout = result.stdout;
+        payload.stderr = result.stderr;
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(payload, null, 2)
+          }
+        ],
+        structuredContent: payload
+      };
+    }
+  );
+
+  // --- Tool: forge_fmt -------------------------------------
+  server.registerTool(
+    "forge_fmt",
+    {
+      title: "Forge fmt",
+      description:
+        "Check or apply `forge fmt` formatting. In check mode nothing is written and a unified diff " +
+        "is returned per file; in write mode only the given paths are formatted.",
+      inputSchema: {
+        mode: z
+          .enum(["check", "write"])
+          .optional()
+          .describe("'check' to report what would change, 'write' to apply formatting (default: check)"),
+        paths: z
+          .array(z.string())
+          .optional()
+          .describe("Files or directories to format, relative to the project root (default: src, test, script)")
+      }
+    },
+    async ({ mode = "check", paths = ["src", "test", "script"] }) => {
+      const files = collectSolidityFiles(paths);
+      const changedFiles = [];
+
+      // One check run over every file; it exits non-zero when anything would change
+      const check = files.length > 0 ? await runForge(["fmt", "--check", ...files]) : null;
+      const diffs = parseFmtCheckOutput(check?.stdout ?? "");
+      for (const [file, hunks] of diffs) {
+        const original = readFileSync(path.resolve(PROJECT_ROOT, file), "utf8");
+        const marked = markMissingNewline(hunks, original);
+        changedFiles.push({ file, hunks: marked, diff: formatUnifiedDiff(file, marked) });
+      }
+      const checkError = check && !check.success && diffs.size === 0 ? check.stderr.trim() || check.stdout.trim() : null;
+
+      let writeResult = null;
+      if (mode === "write" && changedFiles.length > 0) {
+        const args = ["fmt", ...changedFiles.map(changed => changed.file)];
+        const result = await runForge(args);
+        writeResult = {
+          success: result.success,
+          args,
+          stdout: result.stdout,
+          stderr: result.stderr
+        };
+      }
+
+      const payload = {
+        tool: "forge_fmt",
+        projectRoot: PROJECT_ROOT,
+        success: checkError === null && (mode === "write" ? writeResult?.success !== false : changedFiles.length === 0),
+        mode,
+        paths,
+        checkedFiles: files.length,
+        formatted: changedFiles.length === 0,
+        changedFiles,
+        write: writeResult,
+        ...(checkError ? { error: checkError } : {})
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(payload, null, 2)
+          }
+        ],
+        structuredContent: payload
+      };
+    }
+  );
+
+  // --- Tool: forge_lint ------------------------------------
+  server.registerTool(
+    "forge_lint",
+    {
+      title: "Forge lint",
+      description:
+        "Run `forge lint` and return structured findings (lint ID, severity, file, line, message). " +
+        "Respects `exclude_lints` from the [lint] section of foundry.toml unless lintIds asks for an excluded lint.",
+      inputSchema: {
+        paths: z
+          .array(z.string())
+          .optional()
+          .describe("Files or directories to lint (default: the project's sources)"),
+        severity: z
+          .array(z.enum(LINT_SEVERITIES))
+          .optional()
+          .describe("Only report lints of these severities"),
+        lintIds: z
+          .array(z.string())
+          .optional()
+          .describe("Only report these lint IDs, e.g. ['incorrect-shift']"),
+        extraArgs: z
+          .array(z.string())
+          .optional()
+          .describe("Additional forge lint CLI flags")
+      }
+    },
+    async ({ paths = [], severity = [], lintIds = [], extraArgs = [] }) => {
+      const args = ["lint", "--json"];
+
+      for (const level of severity) {
+        args.push("--severity", level);
+      }
+      for (const lintId of lintIds) {
+        args.push("--only-lint", lintId);
+      }
+
+      args.push(...extraArgs, ...paths);
+
+      const result = await runForge(args);
+      const excludedLints = readExcludedLints();
+      // --only-lint overrides exclude_lints in forge, so explicitly requested lints are kept
+      const findings = parseLintOutput(`${result.stdout}\n${result.stderr}`)
+        .filter(finding => lintIds.length > 0 || !excludedLints.includes(finding.lintId));
+
+      const countsBySeverity: Record<string, number> = {};
+      for (const finding of findings) {
+        const key = finding.severity ?? "unknown";
+        countsBySeverity[key] = (countsBySeverity[key] ?? 0) + 1;
+      }
+
+      const payload = {
+        tool: "forge_lint",
+        projectRoot: PROJECT_ROOT,
+        success: result.success || findings.length > 0,
+        args,
+        excludedLints,
+        totalFindings: findings.length,
+        countsBySeverity,
+        findings,
+        stderr: findings.length === 0 && !result.success ? result.stderr : undefined
       };
 
       return {
@@ -58,7 +762,8 @@ export function registerForgeTools(server: McpServer) {
     {
       title: "Forge test",
       description:
-        "Run `forge test` with optional filters and flags to execute Solidity tests.",
+        "Run `forge test` with optional filters and return structured per-suite and per-test results " +
+        "(status, gas, duration, decoded logs, revert reason, fuzz counterexample) plus summary counts.",
       inputSchema: {
         matchTest: z
           .string()
@@ -72,14 +777,18 @@ export function registerForgeTools(server: McpServer) {
           .string()
           .optional()
           .describe("Optional Foundry profile to use"),
+        includeRawOutput: z
+          .boolean()
+          .optional()
+          .describe("Include raw forge stdout/stderr in the result (default: false)"),
         extraArgs: z
           .array(z.string())
           .optional()
-          .describe("Additional forge test CLI flags, e.g. ['-vvvv']")
+          .describe("Additional forge test CLI flags, e.g. ['--fuzz-runs', '1000']")
       }
     },
-    async ({ matchTest, matchPath, profile, extraArgs = [] }) => {
-      const args = ["test"];
+    async ({ matchTest, matchPath, profile, includeRawOutput = false, extraArgs = [] }) => {
+      const args = ["test", "--json"];
 
       if (matchTest) {
         args.push("--match-test", matchTest);
@@ -94,14 +803,356 @@ export function registerForgeTools(server: McpServer) {
       args.push(...extraArgs);
 
       const result = await runForge(args);
+      const output = parseJsonOutput(result.stdout);
+      const { suites, summary } = parseForgeTestJson(output);
+      const savedCounterexamples = recordCounterexamples(suites);
 
-      const payload = {
+      const payload: Record<string, any> = {
         tool: "forge_test",
         projectRoot: PROJECT_ROOT,
-        success: result.success,
+        success: result.success && summary.failed === 0,
         args,
-        stdout: result.stdout,
-        stderr: result.stderr
+        summary,
+        suites,
+        savedCounterexamples
+      };
+
+      // Without parseable JSON (e.g. a compilation error) the raw output is the only useful signal
+      if (includeRawOutput || output === null) {
+        payload.stdout = result.stdout;
+        payload.stderr = result.stderr;
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(payload, null, 2)
+          }
+        ],
+        structuredContent: payload
+      };
+    }
+  );
+
+  // --- Tool: forge_coverage --------------------------------
+  server.registerTool(
+    "forge_coverage",
+    {
+      title: "Forge coverage",
+      description:
+        "Run `forge coverage` with an lcov report and return line/branch/function coverage per file " +
+        "and per contract, including uncovered line ranges.",
+      inputSchema: {
+        matchTest: z
+          .string()
+          .optional()
+          .describe("Value for `--match-test` to restrict the tests that contribute coverage"),
+        matchPath: z
+          .string()
+          .optional()
+          .describe("Value for `--match-path` to filter test files"),
+        profile: z
+          .string()
+          .optional()
+          .describe("Optional Foundry profile to use"),
+        reportFile: z
+          .string()
+          .optional()
+          .describe("Path of the lcov report relative to the project root (default: lcov.info)"),
+        minCoverage: z
+          .number()
+          .min(0)
+          .max(100)
+          .optional()
+          .describe("Fail when total line coverage (percent) falls below this value"),
+        extraArgs: z
+          .array(z.string())
+          .optional()
+          .describe("Additional forge coverage CLI flags, e.g. ['--ir-minimum']")
+      }
+    },
+    async ({ matchTest, matchPath, profile, reportFile = "lcov.info", minCoverage, extraArgs = [] }) => {
+      const args = ["coverage", "--report", "lcov", "--report-file", reportFile];
+
+      if (matchTest) {
+        args.push("--match-test", matchTest);
+      }
+      if (matchPath) {
+        args.push("--match-path", matchPath);
+      }
+      if (profile) {
+        args.push("--profile", profile);
+      }
+
+      args.push(...extraArgs);
+
+      const runStart = Date.now();
+      const result = await runForge(args);
+      const reportPath = path.resolve(PROJECT_ROOT, reportFile);
+
+      // A report left over from an earlier run must not pass for this one
+      if (!existsSync(reportPath) || statSync(reportPath).mtimeMs < runStart) {
+        const payload = {
+          tool: "forge_coverage",
+          projectRoot: PROJECT_ROOT,
+          success: false,
+          args,
+          error: existsSync(reportPath)
+            ? `Coverage report at ${reportPath} was not updated by this run`
+            : `Coverage report not found at ${reportPath}`,
+          stdout: result.stdout,
+          stderr: result.stderr
+        };
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(payload, null, 2)
+            }
+          ],
+          structuredContent: payload
+        };
+      }
+
+      const records = parseLcov(readFileSync(reportPath, "utf8"));
+
+      const files: FileCoverage[] = records.map(record => ({
+        file: record.file,
+        ...summarize(record),
+        uncoveredLines: uncoveredRanges(record.lines),
+        uncoveredFunctions: record.functions.filter(fn => fn.hits === 0).map(fn => fn.name)
+      }));
+      const contracts = records.flatMap(splitByContract);
+
+      const sum = (key: keyof CoverageSummary) =>
+        metric(
+          files.reduce((total, file) => total + file[key].found, 0),
+          files.reduce((total, file) => total + file[key].hit, 0)
+        );
+      const total: CoverageSummary = {
+        lines: sum("lines"),
+        branches: sum("branches"),
+        functions: sum("functions")
+      };
+
+      const belowMinimum =
+        minCoverage !== undefined && (total.lines.percent ?? 0) < minCoverage;
+
+      const payload = {
+        tool: "forge_coverage",
+        projectRoot: PROJECT_ROOT,
+        success: result.success && !belowMinimum,
+        args,
+        reportFile: reportPath,
+        minCoverage: minCoverage ?? null,
+        belowMinimum,
+        total,
+        files,
+        contracts,
+        stderr: result.success ? undefined : result.stderr
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(payload, null, 2)
+          }
+        ],
+        structuredContent: payload
+      };
+    }
+  );
+
+  // --- Tool: forge_inspect ---------------------------------
+  server.registerTool(
+    "forge_inspect",
+    {
+      title: "Forge inspect",
+      description:
+        "Inspect a compiled contract from the project's out/ artifacts (falling back to `forge inspect`): " +
+        "ABI, method identifiers, event/error selectors, storage layout, bytecode sizes and compiler metadata.",
+      inputSchema: {
+        contractName: z
+          .string()
+          .describe("Contract to inspect, e.g. 'Counter' or 'src/Counter.sol:Counter'"),
+        fields: z
+          .array(z.enum(INSPECT_FIELDS))
+          .optional()
+          .describe("Fields to return (default: all)")
+      }
+    },
+    async ({ contractName, fields = [...INSPECT_FIELDS] }) => {
+      const artifact = findArtifact(contractName);
+      const result: Record<string, any> = {};
+      const sources: Record<string, "artifact" | "forge inspect" | "unavailable"> = {};
+
+      const resolve = async (field: string, fromArtifact: () => any, inspectField: string) => {
+        const value = artifact ? fromArtifact() : null;
+        if (value !== null && value !== undefined) {
+          result[field] = value;
+          sources[field] = "artifact";
+          return;
+        }
+        const inspected = await forgeInspect(contractName, inspectField);
+        result[field] = inspected;
+        sources[field] = inspected === null ? "unavailable" : "forge inspect";
+      };
+
+      for (const field of fields) {
+        switch (field) {
+          case "abi":
+            await resolve(field, () => artifact!.abi, "abi");
+            break;
+          case "methodIdentifiers":
+            await resolve(field, () => artifact!.methodIdentifiers ?? methodSelectors(artifact!.abi), "methodIdentifiers");
+            break;
+          case "events":
+            await resolve(field, () => eventSelectors(artifact!.abi), "events");
+            break;
+          case "errors":
+            await resolve(field, () => errorSelectors(artifact!.abi), "errors");
+            break;
+          case "storageLayout":
+            await resolve(field, () => artifact!.storageLayout, "storageLayout");
+            break;
+          case "metadata":
+            await resolve(field, () => artifact!.metadata, "metadata");
+            break;
+          case "sizes": {
+            let bytecode = artifact?.bytecode;
+            let deployedBytecode = artifact?.deployedBytecode;
+            sources.sizes = "artifact";
+            if (!artifact) {
+              bytecode = await forgeInspect(contractName, "bytecode");
+              deployedBytecode = await forgeInspect(contractName, "deployedBytecode");
+              sources.sizes = bytecode ? "forge inspect" : "unavailable";
+            }
+            result.sizes = bytecode
+              ? {
+                  bytecode: bytecodeSize(bytecode),
+                  deployedBytecode: bytecodeSize(deployedBytecode ?? "0x")
+                }
+              : null;
+            break;
+          }
+        }
+      }
+
+      const payload = {
+        tool: "forge_inspect",
+        projectRoot: PROJECT_ROOT,
+        success: Object.values(sources).some(source => source !== "unavailable"),
+        contractName,
+        artifactPath: artifact?.artifactPath ?? null,
+        sourcePath: artifact?.sourcePath ?? null,
+        compilerVersion: artifact?.metadata?.compiler?.version ?? null,
+        sources,
+        ...result
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(payload, null, 2)
+          }
+        ],
+        structuredContent: payload
+      };
+    }
+  );
+
+  // --- Tool: forge_contract_sizes --------------------------
+  server.registerTool(
+    "forge_contract_sizes",
+    {
+      title: "Forge contract sizes",
+      description:
+        "Check every contract's runtime and initcode size against the EIP-170 (24,576 bytes) and " +
+        "EIP-3860 (49,152 bytes) limits, optionally comparing several Foundry profiles and via-IR on/off.",
+      inputSchema: {
+        profiles: z
+          .array(z.string())
+          .optional()
+          .describe("Foundry profiles to build and compare (default: the current profile)"),
+        compareViaIr: z
+          .boolean()
+          .optional()
+          .describe("Also build each profile with `--via-ir` and compare sizes"),
+        contractName: z
+          .string()
+          .optional()
+          .describe("Only report contracts whose name contains this value"),
+        extraArgs: z
+          .array(z.string())
+          .optional()
+          .describe("Additional forge build CLI flags")
+      }
+    },
+    async ({ profiles = [], compareViaIr = false, contractName, extraArgs = [] }) => {
+      const variants: Array<{ profile: string | null; viaIr: boolean }> = [];
+      for (const profile of profiles.length > 0 ? profiles : [null]) {
+        variants.push({ profile, viaIr: false });
+        if (compareViaIr) {
+          variants.push({ profile, viaIr: true });
+        }
+      }
+
+      const builds = [];
+      for (const variant of variants) {
+        const args = ["build", "--sizes", "--json"];
+        if (variant.profile) {
+          args.push("--profile", variant.profile);
+        }
+        if (variant.viaIr) {
+          args.push("--via-ir");
+        }
+        args.push(...extraArgs);
+
+        // forge exits non-zero when a contract is over a limit but still prints the size table
+        const result = await runForge(args);
+        const sizes = parseJsonOutput(result.stdout);
+        const contracts = (sizes || result.success ? parseContractSizes(sizes) : [])
+          .filter(size => !contractName || size.name.includes(contractName));
+
+        builds.push({
+          label: `${variant.profile ?? "default"}${variant.viaIr ? "+via-ir" : ""}`,
+          profile: variant.profile,
+          viaIr: variant.viaIr,
+          buildSucceeded: result.success,
+          args,
+          exceedingLimits: contracts.filter(size => !size.withinLimits).map(size => size.name),
+          contracts,
+          ...(result.success ? {} : { buildError: result.stderr.trim() })
+        });
+      }
+
+      // Side-by-side view of each contract across the built variants
+      const comparison: Record<string, Record<string, { runtimeSize: number; initcodeSize: number }>> = {};
+      if (builds.length > 1) {
+        for (const build of builds) {
+          for (const size of build.contracts) {
+            (comparison[size.name] ??= {})[build.label] = {
+              runtimeSize: size.runtimeSize,
+              initcodeSize: size.initcodeSize
+            };
+          }
+        }
+      }
+
+      const payload = {
+        tool: "forge_contract_sizes",
+        projectRoot: PROJECT_ROOT,
+        success: builds.every(build => build.buildSucceeded && build.exceedingLimits.length === 0),
+        limits: {
+          runtimeSize: RUNTIME_SIZE_LIMIT,
+          initcodeSize: INITCODE_SIZE_LIMIT
+        },
+        builds,
+        comparison: builds.length > 1 ? comparison : null
       };
 
       return {
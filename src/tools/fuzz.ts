@@ -0,0 +1,263 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { writeFileSync, existsSync, mkdirSync, unlinkSync } from "node:fs";
+import path from "node:path";
+import { runForge, parseJsonOutput, PROJECT_ROOT } from "../utils.js";
+import { parseForgeTestJson } from "./forge.js";
+import {
+  COUNTEREXAMPLE_DIR,
+  generateRegressionTest,
+  listCounterexampleIds,
+  loadCounterexamples
+} from "../counterexamples.js";
+import { StoredCounterexample } from "../types.js";
+
+// Stable names for the regression contract/test derived from when the counterexample was recorded
+function regressionNames(entry: StoredCounterexample) {
+  const fn = entry.test.split("(")[0];
+  const stamp = Math.floor(Date.parse(entry.recordedAt) / 1000);
+  return {
+    contractName: `${entry.contract}_${fn}_Regression_${stamp}`,
+    testName: `test_regression_${fn}_${stamp}`
+  };
+}
+
+function lookup(id: string, index: number): StoredCounterexample | string {
+  const entries = loadCounterexamples(id);
+  if (entries.length === 0) {
+    return `No counterexamples stored for '${id}'. Use fuzz_counterexample_list to see what is available.`;
+  }
+  const entry = entries.at(index);
+  if (!Number.isInteger(index) || index < 0 || !entry) {
+    return `Counterexample index ${index} out of range; '${id}' has ${entries.length} stored.`;
+  }
+  return entry;
+}
+
+export function registerFuzzTools(server: McpServer) {
+  // --- Tool: fuzz_counterexample_list ----------------------
+  server.registerTool(
+    "fuzz_counterexample_list",
+    {
+      title: "List fuzz counterexamples",
+      description:
+        "List fuzz and invariant counterexamples recorded from failing forge_test runs.",
+      inputSchema: {
+        filter: z
+          .string()
+          .optional()
+          .describe("Only list IDs (Contract.testName) containing this value")
+      }
+    },
+    async ({ filter }) => {
+      const counterexamples = listCounterexampleIds()
+        .filter(id => !filter || id.includes(filter))
+        .map(id => ({
+          id,
+          entries: loadCounterexamples(id).map((entry, index) => ({
+            index,
+            test: entry.test,
+            suitePath: entry.suitePath,
+            kind: entry.kind,
+            type: entry.counterexample.type,
+            calls: entry.counterexample.calls.length,
+            reason: entry.reason,
+            recordedAt: entry.recordedAt
+          }))
+        }));
+
+      const payload = {
+        tool: "fuzz_counterexample_list",
+        projectRoot: PROJECT_ROOT,
+        success: true,
+        storeDir: COUNTEREXAMPLE_DIR,
+        counterexamples
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(payload, null, 2)
+          }
+        ],
+        structuredContent: payload
+      };
+    }
+  );
+
+  // --- Tool: fuzz_counterexample_replay --------------------
+  server.registerTool(
+    "fuzz_counterexample_replay",
+    {
+      title: "Replay fuzz counterexample",
+      description:
+        "Replay a stored counterexample as a concrete test against the current code and report whether it still fails.",
+      inputSchema: {
+        id: z
+          .string()
+          .describe("Counterexample ID (Contract.testName) from fuzz_counterexample_list"),
+        index: z
+          .number()
+          .int()
+          .nonnegative()
+          .optional()
+          .describe("Which stored counterexample to replay (default: 0, the most recent)"),
+        profile: z
+          .string()
+          .optional()
+          .describe("Optional Foundry profile to use")
+      }
+    },
+    async ({ id, index = 0, profile }) => {
+      const entry = lookup(id, index);
+      if (typeof entry === "string") {
+        const payload = {
+          tool: "fuzz_counterexample_replay",
+          success: false,
+          error: entry
+        };
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(payload, null, 2)
+            }
+          ],
+          structuredContent: payload
+        };
+      }
+
+      // Replay through a throwaway test file next to the original suite
+      const { contractName, testName } = regressionNames(entry);
+      const replayFile = path.join(path.dirname(entry.suitePath), `McpReplay_${Date.now()}.t.sol`);
+      writeFileSync(path.resolve(PROJECT_ROOT, replayFile), generateRegressionTest(entry, contractName, testName, replayFile).source);
+
+      const args = ["test", "--json", "--match-path", replayFile, "--match-test", testName];
+      if (profile) {
+        args.push("--profile", profile);
+      }
+
+      let result;
+      try {
+        result = await runForge(args);
+      } finally {
+        unlinkSync(path.resolve(PROJECT_ROOT, replayFile));
+      }
+
+      const output = parseJsonOutput(result.stdout);
+      const replayed = parseForgeTestJson(output).suites.flatMap(suite => suite.tests)[0] ?? null;
+
+      const payload = {
+        tool: "fuzz_counterexample_replay",
+        projectRoot: PROJECT_ROOT,
+        success: replayed !== null,
+        id,
+        index,
+        counterexample: entry.counterexample,
+        reproduced: replayed?.status === "failure",
+        result: replayed,
+        stderr: replayed ? undefined : result.stderr
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(payload, null, 2)
+          }
+        ],
+        structuredContent: payload
+      };
+    }
+  );
+
+  // --- Tool: fuzz_regression_test --------------------------
+  server.registerTool(
+    "fuzz_regression_test",
+    {
+      title: "Generate regression test from counterexample",
+      description:
+        "Write a concrete Solidity regression test to test/ that replays a stored counterexample. " +
+        "Fuzz failures run against a fresh instance of the original suite after its setUp(); invariant " +
+        "sequences inherit the suite to keep its deployment addresses, which also reruns its tests (see note).",
+      inputSchema: {
+        id: z
+          .string()
+          .describe("Counterexample ID (Contract.testName) from fuzz_counterexample_list"),
+        index: z
+          .number()
+          .int()
+          .nonnegative()
+          .optional()
+          .describe("Which stored counterexample to use (default: 0, the most recent)"),
+        outputDir: z
+          .string()
+          .optional()
+          .describe("Directory for the generated test, relative to the project root (default: test/regression)"),
+        overwrite: z
+          .boolean()
+          .optional()
+          .describe("Overwrite an existing regression file (default: false)")
+      }
+    },
+    async ({ id, index = 0, outputDir = "test/regression", overwrite = false }) => {
+      const entry = lookup(id, index);
+      if (typeof entry === "string") {
+        const payload = {
+          tool: "fuzz_regression_test",
+          success: false,
+          error: entry
+        };
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(payload, null, 2)
+            }
+          ],
+          structuredContent: payload
+        };
+      }
+
+      const { contractName, testName } = regressionNames(entry);
+      const file = path.join(outputDir, `${contractName}.t.sol`);
+      const absolute = path.resolve(PROJECT_ROOT, file);
+      const exists = existsSync(absolute);
+      const { source, inheritsSuite, note } = generateRegressionTest(entry, contractName, testName, file);
+
+      if (!exists || overwrite) {
+        mkdirSync(path.dirname(absolute), { recursive: true });
+        writeFileSync(absolute, source);
+      }
+
+      const payload = {
+        tool: "fuzz_regression_test",
+        projectRoot: PROJECT_ROOT,
+        success: !exists || overwrite,
+        id,
+        file,
+        contractName,
+        testName,
+        written: !exists || overwrite,
+        error: exists && !overwrite ? `${file} already exists. Pass overwrite: true to replace it.` : undefined,
+        source,
+        inheritsSuite,
+        ...(note ? { note } : {}),
+        runWith: `forge test --match-path ${file} --match-test ${testName}`
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(payload, null, 2)
+          }
+        ],
+        structuredContent: payload
+      };
+    }
+  );
+}
@@ -0,0 +1,250 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { readFileSync, existsSync, statSync } from "node:fs";
+import path from "node:path";
+import { runForge, PROJECT_ROOT, DEFAULT_PRIVATE_KEY } from "../utils.js";
+import { getChainId } from "../rpc.js";
+import { getAnvilRpcUrl } from "./anvil.js";
+import { ScriptCreatedContract, ScriptReceipt, ScriptRun, ScriptTransaction } from "../types.js";
+
+// Chain ID of forge's in-memory EVM when no RPC URL is given
+const DEFAULT_CHAIN_ID = 31337;
+
+function toNumber(value: any): number | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  try {
+    return Number(BigInt(value));
+  } catch {
+    return null;
+  }
+}
+
+// Read broadcast/<script>/<chainId>/[dry-run/]run-latest.json if it was written by this run
+function readBroadcastFile(scriptFile: string, chainId: number, dryRun: boolean, since: number): ScriptRun | null {
+  const file = path.join(
+    PROJECT_ROOT,
+    "broadcast",
+    path.basename(scriptFile),
+    chainId.toString(),
+    ...(dryRun ? ["dry-run"] : []),
+    "run-latest.json"
+  );
+
+  if (!existsSync(file) || statSync(file).mtimeMs < since) {
+    return null;
+  }
+
+  const raw = JSON.parse(readFileSync(file, "utf8"));
+
+  const transactions: ScriptTransaction[] = (raw.transactions ?? []).map((tx: any) => ({
+    hash: tx.hash ?? null,
+    type: tx.transactionType ?? "CALL",
+    contractName: tx.contractName ?? null,
+    contractAddress: tx.contractAddress ?? null,
+    function: tx.function ?? null,
+    arguments: tx.arguments ?? null,
+    from: tx.transaction?.from ?? null,
+    to: tx.transaction?.to ?? null,
+    value: tx.transaction?.value ?? null,
+    gas: toNumber(tx.transaction?.gas),
+    nonce: toNumber(tx.transaction?.nonce)
+  }));
+
+  const createdContracts: ScriptCreatedContract[] = [];
+  for (const tx of raw.transactions ?? []) {
+    if (tx.transactionType?.startsWith("CREATE") && tx.contractAddress) {
+      createdContracts.push({
+        contractName: tx.contractName ?? null,
+        address: tx.contractAddress,
+        transactionHash: tx.hash ?? null
+      });
+    }
+    for (const extra of tx.additionalContracts ?? []) {
+      createdContracts.push({
+        contractName: extra.contractName ?? null,
+        address: extra.address,
+        transactionHash: tx.hash ?? null
+      });
+    }
+  }
+
+  const receipts: ScriptReceipt[] = (raw.receipts ?? []).map((receipt: any) => ({
+    transactionHash: receipt.transactionHash,
+    status: toNumber(receipt.status) === 1 ? "success" : "reverted",
+    blockNumber: toNumber(receipt.blockNumber),
+    gasUsed: toNumber(receipt.gasUsed),
+    effectiveGasPrice: receipt.effectiveGasPrice ? BigInt(receipt.effectiveGasPrice).toString() : null,
+    contractAddress: receipt.contractAddress ?? null
+  }));
+
+  return {
+    file,
+    transactions,
+    createdContracts,
+    receipts,
+    totalGasUsed: receipts.reduce((sum, receipt) => sum + (receipt.gasUsed ?? 0), 0)
+  };
+}
+
+// Keep private keys out of the echoed argument list
+function redactArgs(args: string[]): string[] {
+  return args.map((arg, index) => (args[index - 1] === "--private-key" ? "<redacted>" : arg));
+}
+
+export function registerScriptTools(server: McpServer) {
+  // --- Tool: forge_script ----------------------------------
+  server.registerTool(
+    "forge_script",
+    {
+      title: "Forge script",
+      description:
+        "Run a Foundry script (e.g. script/Deploy.s.sol). The script is always simulated first; " +
+        "transactions are only broadcast when `broadcast` is true and the simulation succeeded. " +
+        "Targets the managed Anvil node unless an RPC URL is given, and returns the parsed " +
+        "transactions, created contracts, receipts and gas used.",
+      inputSchema: {
+        scriptPath: z
+          .string()
+          .describe("Path to the script file relative to the project root (e.g. 'script/Deploy.s.sol')"),
+        targetContract: z
+          .string()
+          .optional()
+          .describe("Script contract to run when the file contains several (`--target-contract`)"),
+        sig: z
+          .string()
+          .optional()
+          .describe("Function signature to call (default: 'run()')"),
+        sigArgs: z
+          .array(z.string())
+          .optional()
+          .describe("Arguments for the function given in `sig`"),
+        rpcUrl: z
+          .string()
+          .optional()
+          .describe("RPC URL (defaults to the managed Anvil node)"),
+        broadcast: z
+          .boolean()
+          .optional()
+          .describe("Broadcast the transactions after a successful simulation (default: false)"),
+        privateKey: z
+          .string()
+          .optional()
+          .describe("Private key to broadcast with (falls back to FOUNDRY_PRIVATE_KEY env var)"),
+        sender: z
+          .string()
+          .optional()
+          .describe("Sender address for the script (`--sender`)"),
+        profile: z
+          .string()
+          .optional()
+          .describe("Optional Foundry profile to use"),
+        extraArgs: z
+          .array(z.string())
+          .optional()
+          .describe("Additional forge script CLI flags, e.g. ['--slow']")
+      }
+    },
+    async ({ scriptPath, targetContract, sig, sigArgs = [], rpcUrl, broadcast = false, privateKey, sender, profile, extraArgs = [] }) => {
+      const resolvedRpcUrl = rpcUrl ?? getAnvilRpcUrl();
+
+      if (broadcast && !resolvedRpcUrl) {
+        const payload = {
+          tool: "forge_script",
+          success: false,
+          error: "Broadcasting requires an RPC URL. Start Anvil with anvil_start or pass rpcUrl."
+        };
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(payload, null, 2)
+            }
+          ],
+          structuredContent: payload
+        };
+      }
+
+      const args = ["script", scriptPath];
+
+      if (targetContract) {
+        args.push("--target-contract", targetContract);
+      }
+      if (sig) {
+        args.push("--sig", sig);
+      }
+      if (resolvedRpcUrl) {
+        args.push("--rpc-url", resolvedRpcUrl);
+      }
+
+      const keyToUse = privateKey || DEFAULT_PRIVATE_KEY;
+      if (keyToUse) {
+        args.push("--private-key", keyToUse);
+      }
+      if (sender) {
+        args.push("--sender", sender);
+      }
+      if (profile) {
+        args.push("--profile", profile);
+      }
+
+      args.push(...extraArgs);
+      if (sig) {
+        args.push(...sigArgs);
+      }
+
+      let chainId = DEFAULT_CHAIN_ID;
+      if (resolvedRpcUrl) {
+        chainId = await getChainId(resolvedRpcUrl).catch(() => DEFAULT_CHAIN_ID);
+      }
+
+      // Always simulate first
+      const simulationStart = Date.now();
+      const simulationResult = await runForge(args);
+      const simulation = {
+        success: simulationResult.success,
+        args: redactArgs(args),
+        run: readBroadcastFile(scriptPath, chainId, true, simulationStart),
+        stdout: simulationResult.stdout,
+        stderr: simulationResult.stderr
+      };
+
+      let broadcastRun = null;
+      if (broadcast && simulationResult.success) {
+        const broadcastArgs = [...args, "--broadcast"];
+        const broadcastStart = Date.now();
+        const broadcastResult = await runForge(broadcastArgs);
+        broadcastRun = {
+          success: broadcastResult.success,
+          args: redactArgs(broadcastArgs),
+          run: readBroadcastFile(scriptPath, chainId, false, broadcastStart),
+          stdout: broadcastResult.stdout,
+          stderr: broadcastResult.stderr
+        };
+      }
+
+      const payload = {
+        tool: "forge_script",
+        projectRoot: PROJECT_ROOT,
+        success: simulation.success && (!broadcast || broadcastRun?.success === true),
+        rpcUrl: resolvedRpcUrl,
+        chainId,
+        broadcastRequested: broadcast,
+        simulation,
+        broadcast: broadcastRun
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(payload, null, 2)
+          }
+        ],
+        structuredContent: payload
+      };
+    }
+  );
+}
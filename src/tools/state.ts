@@ -0,0 +1,224 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { readFileSync, writeFileSync, readdirSync, existsSync, mkdirSync, unlinkSync, statSync } from "node:fs";
+import { gunzipSync } from "node:zlib";
+import path from "node:path";
+import { jsonResponse } from "../utils.js";
+import { rpcCall } from "../rpc.js";
+import { getAnvilInstance, anvilStatePath, stateNameSchema, ANVIL_STATE_DIR } from "./anvil.js";
+import { AnvilStateMetadata } from "../types.js";
+
+const stateName = stateNameSchema.describe("Name of the saved state, e.g. 'seeded-protocol'");
+
+function metadataPath(name: string): string {
+  return path.join(ANVIL_STATE_DIR, `${name}.meta.json`);
+}
+
+function readMetadata(name: string): AnvilStateMetadata | null {
+  const file = metadataPath(name);
+  return existsSync(file) ? JSON.parse(readFileSync(file, "utf8")) : null;
+}
+
+function listStateNames(): string[] {
+  if (!existsSync(ANVIL_STATE_DIR)) {
+    return [];
+  }
+  return readdirSync(ANVIL_STATE_DIR)
+    .filter(file => file.endsWith(".json") && !file.endsWith(".meta.json"))
+    .map(file => file.slice(0, -".json".length))
+    .sort();
+}
+
+export function registerStateTools(server: McpServer) {
+  // --- Tool: anvil_state_save ------------------------------
+  server.registerTool(
+    "anvil_state_save",
+    {
+      title: "Save Anvil state",
+      description:
+        "Dump the full chain state of a managed Anvil node (`anvil_dumpState`) to a named, project-local " +
+        "state file that can be restored later with anvil_start's loadState option.",
+      inputSchema: {
+        stateName,
+        description: z
+          .string()
+          .optional()
+          .describe("What this state contains, e.g. 'protocol deployed and seeded with liquidity'"),
+        overwrite: z
+          .boolean()
+          .optional()
+          .describe("Replace an existing state with the same name (default: false)"),
+        name: z
+          .string()
+          .optional()
+          .describe("Anvil instance to dump (default: 'default', or the only running instance)")
+      }
+    },
+    async ({ stateName, description, overwrite = false, name }) => {
+      const instance = getAnvilInstance(name);
+      if (!instance) {
+        return jsonResponse({
+          tool: "anvil_state_save",
+          success: false,
+          error: "No managed Anvil instance is running. Start one with anvil_start or pass a name."
+        });
+      }
+
+      const file = anvilStatePath(stateName);
+      if (existsSync(file) && !overwrite) {
+        return jsonResponse({
+          tool: "anvil_state_save",
+          success: false,
+          error: `State '${stateName}' already exists. Pass overwrite: true to replace it.`
+        });
+      }
+
+      const dump = await rpcCall(instance.rpcUrl, "anvil_dumpState");
+      if (!dump.success || typeof dump.result !== "string") {
+        return jsonResponse({
+          tool: "anvil_state_save",
+          success: false,
+          error: dump.error ?? "anvil_dumpState returned no data"
+        });
+      }
+
+      // The RPC returns gzip-compressed JSON; store it decompressed in the format `--load-state` reads
+      let state = Buffer.from(dump.result.replace(/^0x/, ""), "hex");
+      if (state[0] === 0x1f && state[1] === 0x8b) {
+        state = gunzipSync(state);
+      }
+
+      const blockResult = await rpcCall(instance.rpcUrl, "eth_blockNumber");
+
+      mkdirSync(ANVIL_STATE_DIR, { recursive: true });
+      writeFileSync(file, state);
+
+      const metadata: AnvilStateMetadata = {
+        stateName,
+        description: description ?? null,
+        createdAt: new Date().toISOString(),
+        instance: instance.name,
+        chainId: instance.chainId,
+        blockNumber: blockResult.success ? Number(BigInt(blockResult.result)) : null,
+        forkUrl: instance.forkUrl,
+        sizeBytes: state.length
+      };
+      writeFileSync(metadataPath(stateName), JSON.stringify(metadata, null, 2));
+
+      return jsonResponse({
+        tool: "anvil_state_save",
+        success: true,
+        file,
+        metadata
+      });
+    }
+  );
+
+  // --- Tool: anvil_state_list ------------------------------
+  server.registerTool(
+    "anvil_state_list",
+    {
+      title: "List Anvil states",
+      description: "List saved Anvil state files with their metadata."
+    },
+    async () => {
+      const states = listStateNames().map(name => readMetadata(name) ?? {
+        stateName: name,
+        description: null,
+        sizeBytes: statSync(anvilStatePath(name)).size
+      });
+
+      return jsonResponse({
+        tool: "anvil_state_list",
+        success: true,
+        stateDir: ANVIL_STATE_DIR,
+        states
+      });
+    }
+  );
+
+  // --- Tool: anvil_state_describe --------------------------
+  server.registerTool(
+    "anvil_state_describe",
+    {
+      title: "Describe Anvil state",
+      description:
+        "Describe a saved Anvil state: metadata plus a summary of the accounts, contracts and blocks it contains.",
+      inputSchema: {
+        stateName
+      }
+    },
+    async ({ stateName }) => {
+      const file = anvilStatePath(stateName);
+      if (!existsSync(file)) {
+        return jsonResponse({
+          tool: "anvil_state_describe",
+          success: false,
+          error: `No saved state named '${stateName}'`
+        });
+      }
+
+      let summary: Record<string, any> | null = null;
+      try {
+        const state = JSON.parse(readFileSync(file, "utf8"));
+        const accounts = Object.entries<any>(state.accounts ?? {});
+        const contracts = accounts.filter(([, account]) => account.code && account.code !== "0x");
+        summary = {
+          blockNumber: state.block?.number !== undefined ? Number(BigInt(state.block.number)) : null,
+          bestBlockNumber: state.best_block_number !== undefined ? Number(BigInt(state.best_block_number)) : null,
+          accounts: accounts.length,
+          contracts: contracts.map(([address, account]) => ({
+            address,
+            codeSize: Math.floor((account.code.length - 2) / 2),
+            storageSlots: Object.keys(account.storage ?? {}).length
+          })),
+          blocks: state.blocks?.length ?? null,
+          transactions: state.transactions?.length ?? null
+        };
+      } catch {
+        summary = null;
+      }
+
+      return jsonResponse({
+        tool: "anvil_state_describe",
+        success: true,
+        file,
+        metadata: readMetadata(stateName),
+        summary
+      });
+    }
+  );
+
+  // --- Tool: anvil_state_delete ----------------------------
+  server.registerTool(
+    "anvil_state_delete",
+    {
+      title: "Delete Anvil state",
+      description: "Delete a saved Anvil state file and its metadata.",
+      inputSchema: {
+        stateName
+      }
+    },
+    async ({ stateName }) => {
+      const file = anvilStatePath(stateName);
+      if (!existsSync(file)) {
+        return jsonResponse({
+          tool: "anvil_state_delete",
+          success: false,
+          error: `No saved state named '${stateName}'`
+        });
+      }
+
+      unlinkSync(file);
+      if (existsSync(metadataPath(stateName))) {
+        unlinkSync(metadataPath(stateName));
+      }
+
+      return jsonResponse({
+        tool: "anvil_state_delete",
+        success: true,
+        deleted: stateName
+      });
+    }
+  );
+}
@@ -0,0 +1,145 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { jsonResponse } from "../utils.js";
+import { toBlockParam } from "../rpc.js";
+import { findArtifact, forgeInspect } from "../artifacts.js";
+import { createStorageReader, decodeStorageValue, formatSlot, resolveStoragePath } from "../storage.js";
+import { resolveRpcUrl } from "./anvil.js";
+import { StorageLayout } from "../types.js";
+
+const DEFAULT_MAX_ELEMENTS = 20;
+
+// Layout from the compiled artifact when it was built with storageLayout output, else from `forge inspect`
+async function loadStorageLayout(contract: string): Promise<{ layout: StorageLayout | null; source: string | null }> {
+  const artifact = findArtifact(contract);
+  if (artifact?.storageLayout?.storage) {
+    return { layout: artifact.storageLayout, source: "artifact" };
+  }
+  const inspected = await forgeInspect(contract, "storageLayout");
+  if (inspected?.storage) {
+    return { layout: inspected, source: "forge inspect" };
+  }
+  return { layout: null, source: null };
+}
+
+export function registerStorageTools(server: McpServer) {
+  // --- Tool: cast_storage_read -----------------------------
+  server.registerTool(
+    "cast_storage_read",
+    {
+      title: "Read contract storage",
+      description:
+        "Read a deployed contract's state variables using the storage layout from project artifacts. " +
+        "Address a variable by name with mapping keys, array indices and struct fields " +
+        "(e.g. 'balances[0xabc...]', 'users[3].name', 'allowance[0xa...][0xb...]'); the slot is computed, " +
+        "read over JSON-RPC and decoded to a typed value. Without a path every top-level variable is read.",
+      inputSchema: {
+        contract: z
+          .string()
+          .describe("Contract name whose layout to use, e.g. 'Vault' or 'src/Vault.sol:Vault'"),
+        address: z
+          .string()
+          .regex(/^0x[0-9a-fA-F]{40}$/, "Expected a 20-byte address")
+          .describe("Deployed contract address"),
+        path: z
+          .string()
+          .optional()
+          .describe("Variable path such as 'owner', 'balances[0x...]', 'names[\"alice\"]', 'items[2].amount' (default: all variables)"),
+        block: z
+          .string()
+          .optional()
+          .describe("Block number, tag or hash to read at (default: latest)"),
+        rpcUrl: z
+          .string()
+          .optional()
+          .describe("RPC URL (default: the running managed Anvil instance, else ETH_RPC_URL or localhost:8545)"),
+        maxElements: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe(`Maximum array elements to decode (default: ${DEFAULT_MAX_ELEMENTS})`)
+      }
+    },
+    async ({ contract, address, path, block, rpcUrl, maxElements = DEFAULT_MAX_ELEMENTS }) => {
+      const endpoint = resolveRpcUrl(rpcUrl);
+      if (endpoint.error) {
+        return jsonResponse({
+          tool: "cast_storage_read",
+          success: false,
+          error: endpoint.error
+        });
+      }
+
+      const { layout, source } = await loadStorageLayout(contract);
+
+      if (!layout) {
+        return jsonResponse({
+          tool: "cast_storage_read",
+          success: false,
+          contract,
+          error: `No storage layout found for ${contract}`,
+          hint: "Build the project (or add extra_output = [\"storageLayout\"] to foundry.toml) so the layout is available"
+        });
+      }
+
+      const reader = createStorageReader(endpoint.rpcUrl, address, toBlockParam(block));
+      const read = async (expression: string) => {
+        const location = resolveStoragePath(layout, expression);
+        return {
+          path: expression,
+          slot: formatSlot(location.slot),
+          offset: location.offset,
+          type: layout.types?.[location.type]?.label ?? location.type,
+          value: await decodeStorageValue(layout, location, reader, maxElements),
+          raw: await reader.read(location.slot)
+        };
+      };
+
+      try {
+        if (path) {
+          return jsonResponse({
+            tool: "cast_storage_read",
+            success: true,
+            rpcUrl: endpoint.rpcUrl,
+            rpcUrlSource: endpoint.source,
+            contract,
+            address,
+            layoutSource: source,
+            ...await read(path),
+            slotsRead: reader.slotsRead()
+          });
+        }
+
+        await reader.prefetch(layout.storage.map(entry => BigInt(entry.slot)));
+        const variables = [];
+        for (const entry of layout.storage) {
+          variables.push({ ...await read(entry.label), contract: entry.contract ?? null });
+        }
+        return jsonResponse({
+          tool: "cast_storage_read",
+          success: true,
+          rpcUrl: endpoint.rpcUrl,
+          rpcUrlSource: endpoint.source,
+          contract,
+          address,
+          layoutSource: source,
+          variables,
+          slotsRead: reader.slotsRead()
+        });
+      } catch (error: any) {
+        return jsonResponse({
+          tool: "cast_storage_read",
+          success: false,
+          rpcUrl: endpoint.rpcUrl,
+          rpcUrlSource: endpoint.source,
+          contract,
+          address,
+          ...(path ? { path } : {}),
+          error: error.message,
+          variables: layout.storage.map(entry => ({ label: entry.label, type: layout.types?.[entry.type]?.label ?? entry.type }))
+        });
+      }
+    }
+  );
+}
@@ -0,0 +1,186 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { jsonResponse } from "../utils.js";
+import { rpcBatch, rpcCall } from "../rpc.js";
+import { decodeCalldata, decodeReturnData, decodeRevert, loadAbiIndex } from "../abi.js";
+import { resolveRpcUrl } from "./anvil.js";
+import { AbiIndex, TraceFrame } from "../types.js";
+
+// Tracing large transactions on a fork can take a while
+const TRACE_TIMEOUT_MS = 60_000;
+
+function toNumber(value: string | undefined): number | null {
+  return value === undefined ? null : Number(value);
+}
+
+// The only project contract whose runtime code has this size, if exactly one matches
+function contractForSize(index: AbiIndex, size: number | undefined): string | null {
+  if (!size) {
+    return null;
+  }
+  const matches = [...index.runtimeSizes].filter(([, runtimeSize]) => runtimeSize === size);
+  return matches.length === 1 ? matches[0][0] : null;
+}
+
+// Convert a callTracer frame, naming contracts and decoding inputs/outputs against project ABIs
+function buildFrame(raw: any, index: AbiIndex, codeSizes: Map<string, number>, path: string, depth: number): TraceFrame {
+  const type = String(raw.type ?? "CALL").toUpperCase();
+  const isCreate = type.startsWith("CREATE");
+  const to = raw.to ?? null;
+  const codeSize = to ? codeSizes.get(to.toLowerCase()) : undefined;
+  const input = raw.input ?? "0x";
+  const output = raw.output ?? null;
+
+  const call = !isCreate && input.length >= 10
+    ? decodeCalldata(index, input, contract => index.runtimeSizes.get(contract) === codeSize)
+    : null;
+
+  const frame: TraceFrame = {
+    path,
+    depth,
+    type,
+    from: raw.from,
+    to,
+    contract: call?.contract ?? contractForSize(index, codeSize),
+    function: isCreate ? "constructor" : call?.name ?? null,
+    signature: call?.signature ?? null,
+    args: call?.args ?? null,
+    value: raw.value ? BigInt(raw.value).toString() : null,
+    gas: toNumber(raw.gas),
+    gasUsed: toNumber(raw.gasUsed),
+    input,
+    output,
+    decodedOutput: call && output && !raw.error ? decodeReturnData(index, call, output) : null,
+    error: raw.error ?? null,
+    revert: raw.error && raw.error !== "out of gas" ? decodeRevert(index, output ?? "0x") : null,
+    calls: []
+  };
+
+  frame.calls = (raw.calls ?? []).map((child: any, i: number) =>
+    buildFrame(child, index, codeSizes, `${path}.${i}`, depth + 1)
+  );
+  return frame;
+}
+
+// Follow reverted children whose output bubbled up unchanged to find where the revert originated
+function findRevertOrigin(frame: TraceFrame): TraceFrame | null {
+  if (!frame.error) {
+    return null;
+  }
+  const bubbled = [...frame.calls].reverse().find(child => child.error && child.output === frame.output);
+  return bubbled ? findRevertOrigin(bubbled) ?? bubbled : frame;
+}
+
+function collectAddresses(raw: any, addresses: Set<string>) {
+  if (raw.to) {
+    addresses.add(raw.to.toLowerCase());
+  }
+  for (const child of raw.calls ?? []) {
+    collectAddresses(child, addresses);
+  }
+}
+
+function pruneDepth(frame: TraceFrame, maxDepth: number): TraceFrame {
+  return {
+    ...frame,
+    calls: frame.depth >= maxDepth ? [] : frame.calls.map(child => pruneDepth(child, maxDepth))
+  };
+}
+
+export function registerTraceTools(server: McpServer) {
+  // --- Tool: cast_trace ------------------------------------
+  server.registerTool(
+    "cast_trace",
+    {
+      title: "Trace transaction",
+      description:
+        "Trace a mined transaction with `debug_traceTransaction` (callTracer) and return the nested call tree: " +
+        "from/to, contract and function names with decoded arguments and return values from project artifacts, " +
+        "gas per frame, and the frame where a revert originated with its decoded reason.",
+      inputSchema: {
+        txHash: z
+          .string()
+          .regex(/^0x[0-9a-fA-F]{64}$/, "Expected a 32-byte transaction hash")
+          .describe("Transaction hash to trace"),
+        rpcUrl: z
+          .string()
+          .optional()
+          .describe("RPC URL (default: the running managed Anvil instance)"),
+        maxDepth: z
+          .number()
+          .int()
+          .nonnegative()
+          .optional()
+          .describe("Drop frames nested deeper than this (default: unlimited)")
+      }
+    },
+    async ({ txHash, rpcUrl, maxDepth }) => {
+      const endpoint = resolveRpcUrl(rpcUrl);
+      if (endpoint.error) {
+        return jsonResponse({
+          tool: "cast_trace",
+          success: false,
+          error: endpoint.error
+        });
+      }
+
+      const traced = await rpcCall(
+        endpoint.rpcUrl,
+        "debug_traceTransaction",
+        [txHash, { tracer: "callTracer" }],
+        { timeoutMs: TRACE_TIMEOUT_MS }
+      );
+
+      if (!traced.success || !traced.result) {
+        return jsonResponse({
+          tool: "cast_trace",
+          success: false,
+          rpcUrl: endpoint.rpcUrl,
+          rpcUrlSource: endpoint.source,
+          transactionHash: txHash,
+          error: traced.error ?? "Transaction not found",
+          hint: "The node must support debug_traceTransaction (Anvil does; many public RPCs don't)"
+        });
+      }
+
+      const index = loadAbiIndex();
+      const addresses = new Set<string>();
+      collectAddresses(traced.result, addresses);
+
+      const codes = await rpcBatch(
+        endpoint.rpcUrl,
+        [...addresses].map(address => ({ method: "eth_getCode", params: [address, "latest"] }))
+      );
+      const codeSizes = new Map<string, number>();
+      [...addresses].forEach((address, i) => {
+        if (codes[i].success && typeof codes[i].result === "string") {
+          codeSizes.set(address, (codes[i].result.length - 2) / 2);
+        }
+      });
+
+      const root = buildFrame(traced.result, index, codeSizes, "0", 0);
+      const origin = findRevertOrigin(root);
+
+      return jsonResponse({
+        tool: "cast_trace",
+        success: true,
+        rpcUrl: endpoint.rpcUrl,
+        rpcUrlSource: endpoint.source,
+        transactionHash: txHash,
+        status: root.error ? "reverted" : "success",
+        gasUsed: root.gasUsed,
+        revertFrame: origin
+          ? {
+              path: origin.path,
+              contract: origin.contract,
+              function: origin.function,
+              to: origin.to,
+              error: origin.error,
+              revert: origin.revert
+            }
+          : null,
+        trace: maxDepth === undefined ? root : pruneDepth(root, maxDepth)
+      });
+    }
+  );
+}
@@ -0,0 +1,377 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { watch, readdirSync, readFileSync, existsSync, statSync } from "node:fs";
+import path from "node:path";
+import { runForge, parseJsonOutput, PROJECT_ROOT } from "../utils.js";
+import { parseForgeBuildJson, parseForgeTestJson } from "./forge.js";
+import { recordCounterexamples } from "../counterexamples.js";
+import { WatchRun, WatchSession } from "../types.js";
+
+const LOGGER = "forge-watch";
+
+// Store the active watch session
+let watchSession: WatchSession | null = null;
+
+function listTestFiles(dir: string): string[] {
+  const absolute = path.resolve(PROJECT_ROOT, dir);
+  if (!existsSync(absolute)) {
+    return [];
+  }
+  return readdirSync(absolute, { recursive: true, encoding: "utf8" })
+    .filter(file => file.endsWith(".t.sol"))
+    .map(file => path.join(dir, file));
+}
+
+// Test files that changed, plus test files importing a changed source file; null means "run everything"
+function affectedTestFiles(changedFiles: string[]): string[] | null {
+  const affected = new Set<string>();
+  const testFiles = listTestFiles("test");
+
+  for (const file of changedFiles) {
+    if (file.endsWith(".t.sol")) {
+      affected.add(file);
+      continue;
+    }
+
+    const basename = path.basename(file).replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const importPattern = new RegExp(`import[^;]*["'](?:[^"']*/)?${basename}["']`);
+    const importers = testFiles.filter(testFile => {
+      try {
+        return importPattern.test(readFileSync(path.resolve(PROJECT_ROOT, testFile), "utf8"));
+      } catch {
+        return false;
+      }
+    });
+
+    // Indirect dependencies (e.g. a library used by an imported contract) aren't tracked
+    if (importers.length === 0) {
+      return null;
+    }
+    importers.forEach(testFile => affected.add(testFile));
+  }
+
+  return [...affected];
+}
+
+async function notify(server: McpServer, level: "info" | "warning" | "error", data: any) {
+  try {
+    await server.sendLoggingMessage({ level, logger: LOGGER, data });
+  } catch {
+    // Client disconnected; the result is still available via forge_watch_status
+  }
+}
+
+async function runCycle(server: McpServer, session: WatchSession) {
+  if (session.running) {
+    return;
+  }
+  session.running = true;
+
+  const changedFiles = [...session.pendingChanges].sort();
+  session.pendingChanges.clear();
+
+  try {
+    session.lastRun = await buildAndTest(server, session, changedFiles);
+    session.runs++;
+  } finally {
+    session.running = false;
+
+    // Changes that arrived while this cycle ran get their own cycle
+    if (session.pendingChanges.size > 0 && watchSession === session) {
+      schedule(server, session);
+    }
+  }
+}
+
+async function buildAndTest(server: McpServer, session: WatchSession, changedFiles: string[]): Promise<WatchRun> {
+  const started = Date.now();
+
+  const buildArgs = ["build", "--json"];
+  if (session.profile) {
+    buildArgs.push("--profile", session.profile);
+  }
+  const buildResult = await runForge(buildArgs);
+  const { diagnostics } = parseForgeBuildJson(parseJsonOutput(buildResult.stdout));
+  const errors = diagnostics.filter(d => d.severity === "error");
+
+  const run: WatchRun = {
+    startedAt: new Date(started).toISOString(),
+    durationMs: 0,
+    changedFiles,
+    build: {
+      success: buildResult.success && errors.length === 0,
+      errorCount: errors.length,
+      warningCount: diagnostics.filter(d => d.severity === "warning").length
+    },
+    tests: null
+  };
+
+  await notify(server, run.build.success ? "info" : "error", {
+    event: "build",
+    changedFiles,
+    ...run.build,
+    errors: errors.map(d => ({ file: d.file, start: d.start, errorCode: d.errorCode, message: d.message }))
+  });
+
+  if (run.build.success && session.runTests) {
+    const affected = affectedTestFiles(changedFiles);
+    const matchPath = affected === null
+      ? null
+      : affected.length === 1 ? affected[0] : `{${affected.join(",")}}`;
+
+    if (affected === null || affected.length > 0) {
+      const testArgs = ["test", "--json"];
+      if (matchPath) {
+        testArgs.push("--match-path", matchPath);
+      }
+      if (session.matchTest) {
+        testArgs.push("--match-test", session.matchTest);
+      }
+      if (session.profile) {
+        testArgs.push("--profile", session.profile);
+      }
+
+      const testResult = await runForge(testArgs);
+      const { suites, summary } = parseForgeTestJson(parseJsonOutput(testResult.stdout));
+      recordCounterexamples(suites);
+
+      run.tests = {
+        matchPath,
+        summary,
+        failures: suites.flatMap(suite =>
+          suite.tests
+            .filter(test => test.status === "failure")
+            .map(test => ({ suite: suite.id, test: test.name, reason: test.reason }))
+        )
+      };
+
+      await notify(server, run.tests.failures.length > 0 ? "error" : "info", {
+        event: "test",
+        ...run.tests
+      });
+    }
+  }
+
+  run.durationMs = Date.now() - started;
+  return run;
+}
+
+function schedule(server: McpServer, session: WatchSession) {
+  if (session.timer) {
+    clearTimeout(session.timer);
+  }
+  session.timer = setTimeout(() => {
+    session.timer = null;
+    runCycle(server, session).catch(err =>
+      notify(server, "error", { event: "error", message: err.message })
+    );
+  }, session.debounceMs);
+}
+
+// Export cleanup function for the main server
+export function cleanupWatch() {
+  if (watchSession) {
+    watchSession.watchers.forEach(watcher => watcher.close());
+    if (watchSession.timer) {
+      clearTimeout(watchSession.timer);
+    }
+    watchSession = null;
+  }
+}
+
+export function registerWatchTools(server: McpServer) {
+  // --- Tool: forge_watch_start -----------------------------
+  server.registerTool(
+    "forge_watch_start",
+    {
+      title: "Start forge watch",
+      description:
+        "Start a long-lived watch session that rebuilds and reruns affected tests when Solidity files change. " +
+        "Results are pushed as MCP logging notifications (logger 'forge-watch').",
+      inputSchema: {
+        paths: z
+          .array(z.string())
+          .optional()
+          .describe("Directories to watch, relative to the project root (default: src, test)"),
+        runTests: z
+          .boolean()
+          .optional()
+          .describe("Rerun affected tests after a successful build (default: true)"),
+        matchTest: z
+          .string()
+          .optional()
+          .describe("Only rerun tests matching this `--match-test` pattern"),
+        profile: z
+          .string()
+          .optional()
+          .describe("Optional Foundry profile to use"),
+        debounceMs: z
+          .number()
+          .optional()
+          .describe("Wait this long after the last change before rebuilding (default: 500)")
+      }
+    },
+    async ({ paths = ["src", "test"], runTests = true, matchTest, profile, debounceMs = 500 }) => {
+      if (watchSession) {
+        const payload = {
+          tool: "forge_watch_start",
+          success: false,
+          error: "A watch session is already running. Use forge_watch_stop to stop it first."
+        };
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(payload, null, 2)
+            }
+          ],
+          structuredContent: payload
+        };
+      }
+
+      const watchedPaths = paths.filter(dir => {
+        const absolute = path.resolve(PROJECT_ROOT, dir);
+        return existsSync(absolute) && statSync(absolute).isDirectory();
+      });
+
+      if (watchedPaths.length === 0) {
+        const payload = {
+          tool: "forge_watch_start",
+          projectRoot: PROJECT_ROOT,
+          success: false,
+          paths: [],
+          ignoredPaths: paths,
+          error: "None of the given paths is an existing directory"
+        };
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(payload, null, 2)
+            }
+          ],
+          structuredContent: payload
+        };
+      }
+
+      const session: WatchSession = {
+        watchers: [],
+        paths: watchedPaths,
+        runTests,
+        matchTest,
+        profile,
+        debounceMs,
+        startedAt: Date.now(),
+        pendingChanges: new Set(),
+        timer: null,
+        running: false,
+        runs: 0,
+        lastRun: null
+      };
+
+      for (const dir of watchedPaths) {
+        const watcher = watch(path.resolve(PROJECT_ROOT, dir), { recursive: true }, (_event, filename) => {
+          if (!filename || !filename.toString().endsWith(".sol")) {
+            return;
+          }
+          session.pendingChanges.add(path.join(dir, filename.toString()));
+          if (!session.running) {
+            schedule(server, session);
+          }
+        });
+        // An unhandled watcher error (e.g. the directory was deleted) would crash the server
+        watcher.on("error", err => {
+          watcher.close();
+          notify(server, "error", { event: "error", path: dir, message: err.message });
+        });
+        session.watchers.push(watcher);
+      }
+
+      watchSession = session;
+
+      const payload = {
+        tool: "forge_watch_start",
+        projectRoot: PROJECT_ROOT,
+        success: true,
+        paths: watchedPaths,
+        ignoredPaths: paths.filter(dir => !watchedPaths.includes(dir)),
+        runTests,
+        debounceMs,
+        message: "Watch session started; results are sent as logging notifications"
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(payload, null, 2)
+          }
+        ],
+        structuredContent: payload
+      };
+    }
+  );
+
+  // --- Tool: forge_watch_stop ------------------------------
+  server.registerTool(
+    "forge_watch_stop",
+    {
+      title: "Stop forge watch",
+      description: "Stop the running watch session."
+    },
+    async () => {
+      const session = watchSession;
+      cleanupWatch();
+
+      const payload = {
+        tool: "forge_watch_stop",
+        success: session !== null,
+        runs: session?.runs ?? 0,
+        error: session ? undefined : "No watch session is currently running"
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(payload, null, 2)
+          }
+        ],
+        structuredContent: payload
+      };
+    }
+  );
+
+  // --- Tool: forge_watch_status ----------------------------
+  server.registerTool(
+    "forge_watch_status",
+    {
+      title: "Forge watch status",
+      description: "Report whether a watch session is running and the result of its last build/test cycle."
+    },
+    async () => {
+      const payload = {
+        tool: "forge_watch_status",
+        isRunning: watchSession !== null,
+        paths: watchSession?.paths ?? [],
+        uptimeMs: watchSession ? Date.now() - watchSession.startedAt : null,
+        runs: watchSession?.runs ?? 0,
+        cycleInProgress: watchSession?.running ?? false,
+        pendingChanges: watchSession ? [...watchSession.pendingChanges] : [],
+        lastRun: watchSession?.lastRun ?? null
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(payload, null, 2)
+          }
+        ],
+        structuredContent: payload
+      };
+    }
+  );
+}
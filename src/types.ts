@@ -1,4 +1,5 @@
 import { ChildProcess } from "node:child_process";
+import { FSWatcher } from "node:fs";
 
 export interface CommandResult {
   success: boolean;
@@ -14,6 +15,434 @@ export interface ToolResponse {
   structuredContent?: any;
 }
 
-export interface AnvilState {
-  process: ChildProcess | null;
+export interface AnvilAccount {
+  index: number;
+  address: string;
+  privateKey: string | null;
+  balance: string | null;
+}
+
+export interface AnvilLogLine {
+  cursor: number;
+  stream: "stdout" | "stderr";
+  timestamp: string;
+  text: string;
+}
+
+export interface AnvilLogBuffer {
+  capacity: number;
+  lines: AnvilLogLine[];
+  nextCursor: number;
+  partial: Record<"stdout" | "stderr", string>;
+}
+
+export interface AnvilSnapshot {
+  name: string;
+  id: string;
+  blockNumber: number | null;
+  createdAt: string;
+}
+
+export type AnvilInstanceStatus = "starting" | "running" | "restarting" | "exited";
+
+export interface AnvilExitInfo {
+  code: number | null;
+  signal: string | null;
+  at: string;
+  // True when the exit was requested through anvil_stop or server shutdown
+  expected: boolean;
+  lastLogLines: string[];
+}
+
+export interface AnvilRestartPolicy {
+  maxRestarts: number;
+  delayMs: number;
+}
+
+export interface AnvilInstance {
+  name: string;
+  process: ChildProcess;
+  status: AnvilInstanceStatus;
+  port: number;
+  rpcUrl: string;
+  args: string[];
+  startedAt: number;
+  forkUrl: string | null;
+  forkBlockNumber: number | null;
+  chainId: number | null;
+  accounts: AnvilAccount[];
+  logs: AnvilLogBuffer;
+  snapshots: AnvilSnapshot[];
+  impersonatedAccounts: string[];
+  restartPolicy: AnvilRestartPolicy | null;
+  restartCount: number;
+  restartTimer: NodeJS.Timeout | null;
+  stopping: boolean;
+  lastExit: AnvilExitInfo | null;
+  lastError: string | null;
+}
+
+export type ForgeTestStatus = "success" | "failure" | "skipped";
+
+export type ForgeTestKind = "unit" | "fuzz" | "invariant";
+
+export interface ForgeCounterexampleCall {
+  sender: string | null;
+  target: string | null;
+  calldata: string;
+  contractName: string | null;
+  functionName: string | null;
+  signature: string | null;
+  args: string | null;
+}
+
+export interface ForgeCounterexample {
+  type: "single" | "sequence";
+  calls: ForgeCounterexampleCall[];
+}
+
+export interface ForgeTestCase {
+  name: string;
+  status: ForgeTestStatus;
+  kind: ForgeTestKind;
+  gas: number | null;
+  fuzz?: {
+    runs: number;
+    meanGas: number;
+    medianGas: number;
+  };
+  invariant?: {
+    runs: number;
+    calls: number;
+    reverts: number;
+  };
+  durationMs: number | null;
+  logs: string[];
+  reason: string | null;
+  counterexample: ForgeCounterexample | null;
+}
+
+export interface ForgeTestSuite {
+  id: string;
+  path: string;
+  contract: string;
+  durationMs: number | null;
+  warnings: string[];
+  passed: number;
+  failed: number;
+  skipped: number;
+  tests: ForgeTestCase[];
+}
+
+export interface ForgeTestSummary {
+  suites: number;
+  tests: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  durationMs: number;
+}
+
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export interface CompilerDiagnostic {
+  severity: "error" | "warning" | "info";
+  type: string;
+  errorCode: string | null;
+  file: string | null;
+  start: SourcePosition | null;
+  end: SourcePosition | null;
+  message: string;
+  formattedMessage: string | null;
+}
+
+export interface CompiledContract {
+  file: string;
+  name: string;
+}
+
+export interface CoverageMetric {
+  found: number;
+  hit: number;
+  percent: number | null;
+}
+
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+export interface CoverageSummary {
+  lines: CoverageMetric;
+  branches: CoverageMetric;
+  functions: CoverageMetric;
+}
+
+export interface FileCoverage extends CoverageSummary {
+  file: string;
+  uncoveredLines: LineRange[];
+  uncoveredFunctions: string[];
+}
+
+export interface ContractCoverage extends CoverageSummary {
+  file: string;
+  contract: string;
+  uncoveredLines: LineRange[];
+}
+
+export interface ScriptTransaction {
+  hash: string | null;
+  type: string;
+  contractName: string | null;
+  contractAddress: string | null;
+  function: string | null;
+  arguments: string[] | null;
+  from: string | null;
+  to: string | null;
+  value: string | null;
+  gas: number | null;
+  nonce: number | null;
+}
+
+export interface ScriptCreatedContract {
+  contractName: string | null;
+  address: string;
+  transactionHash: string | null;
+}
+
+export interface ScriptReceipt {
+  transactionHash: string;
+  status: "success" | "reverted";
+  blockNumber: number | null;
+  gasUsed: number | null;
+  effectiveGasPrice: string | null;
+  contractAddress: string | null;
+}
+
+export interface ScriptRun {
+  file: string;
+  transactions: ScriptTransaction[];
+  createdContracts: ScriptCreatedContract[];
+  receipts: ScriptReceipt[];
+  totalGasUsed: number;
+}
+
+export interface ArtifactRef {
+  name: string;
+  sourceFile: string;
+  artifactPath: string;
+}
+
+export interface ContractArtifact extends ArtifactRef {
+  sourcePath: string | null;
+  abi: any[];
+  bytecode: string;
+  deployedBytecode: string;
+  methodIdentifiers: Record<string, string> | null;
+  storageLayout: any | null;
+  metadata: any | null;
+}
+
+export interface ContractSize {
+  name: string;
+  runtimeSize: number;
+  initcodeSize: number;
+  runtimeMargin: number;
+  initcodeMargin: number;
+  withinLimits: boolean;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[];
+}
+
+export type LintSeverity = "high" | "med" | "low" | "info" | "gas";
+
+export interface LintFinding {
+  lintId: string;
+  severity: LintSeverity | null;
+  level: string;
+  file: string | null;
+  start: SourcePosition | null;
+  end: SourcePosition | null;
+  message: string;
+  help: string | null;
+}
+
+export interface StoredCounterexample {
+  id: string;
+  suiteId: string;
+  suitePath: string;
+  contract: string;
+  test: string;
+  kind: ForgeTestKind;
+  reason: string | null;
+  counterexample: ForgeCounterexample;
+  recordedAt: string;
+}
+
+export interface RegressionTest {
+  source: string;
+  // Invariant sequences inherit the suite to keep its deployment addresses, so its own tests run again
+  inheritsSuite: boolean;
+  note: string | null;
+}
+
+export interface WatchRun {
+  startedAt: string;
+  durationMs: number;
+  changedFiles: string[];
+  build: {
+    success: boolean;
+    errorCount: number;
+    warningCount: number;
+  };
+  tests: {
+    matchPath: string | null;
+    summary: ForgeTestSummary;
+    failures: Array<{ suite: string; test: string; reason: string | null }>;
+  } | null;
+}
+
+export interface WatchSession {
+  watchers: FSWatcher[];
+  paths: string[];
+  runTests: boolean;
+  matchTest?: string;
+  profile?: string;
+  debounceMs: number;
+  startedAt: number;
+  pendingChanges: Set<string>;
+  timer: NodeJS.Timeout | null;
+  running: boolean;
+  runs: number;
+  lastRun: WatchRun | null;
+}
+
+export interface AnvilStateMetadata {
+  stateName: string;
+  description: string | null;
+  createdAt: string;
+  instance: string;
+  chainId: number | null;
+  blockNumber: number | null;
+  forkUrl: string | null;
+  sizeBytes: number;
+}
+
+export interface AbiEntry {
+  contract: string;
+  signature: string;
+  // Where the ABI came from: "out", "lib/<dependency>", "node_modules/<package>" or "builtin"
+  source: string;
+  item: any;
+}
+
+export interface AbiIndex {
+  events: Map<string, AbiEntry[]>;
+  errors: Map<string, AbiEntry[]>;
+  functions: Map<string, AbiEntry[]>;
+  // Runtime bytecode size per contract, to tell apart contracts sharing a selector
+  runtimeSizes: Map<string, number>;
+}
+
+export interface DecodedCall {
+  selector: string;
+  contract: string;
+  name: string;
+  signature: string;
+  args: Record<string, any> | any[] | null;
+}
+
+export interface DecodedLog {
+  logIndex: number | null;
+  blockNumber: number | null;
+  transactionHash: string | null;
+  address: string;
+  contract: string | null;
+  event: string | null;
+  signature: string | null;
+  args: Record<string, any> | any[] | null;
+  topics: string[];
+  data: string;
+}
+
+export interface DecodedRevert {
+  data: string;
+  kind: "error" | "panic" | "custom" | "empty" | "unknown";
+  contract: string | null;
+  name: string | null;
+  signature: string | null;
+  args: Record<string, any> | any[] | null;
+  reason: string;
+}
+
+export interface TransactionReceipt {
+  transactionHash: string;
+  status: "success" | "reverted";
+  blockNumber: number | null;
+  blockHash: string | null;
+  from: string | null;
+  to: string | null;
+  contractAddress: string | null;
+  gasUsed: number | null;
+  effectiveGasPrice: string | null;
+  logs: DecodedLog[];
+}
+
+export interface TraceFrame {
+  path: string;
+  depth: number;
+  type: string;
+  from: string;
+  to: string | null;
+  contract: string | null;
+  function: string | null;
+  signature: string | null;
+  args: Record<string, any> | any[] | null;
+  value: string | null;
+  gas: number | null;
+  gasUsed: number | null;
+  input: string;
+  output: string | null;
+  decodedOutput: any;
+  error: string | null;
+  revert: DecodedRevert | null;
+  calls: TraceFrame[];
+}
+
+export interface StorageLayoutEntry {
+  label: string;
+  slot: string;
+  offset: number;
+  type: string;
+  contract?: string;
+}
+
+export interface StorageLayoutType {
+  encoding: "inplace" | "mapping" | "dynamic_array" | "bytes";
+  label: string;
+  numberOfBytes: string;
+  base?: string;
+  key?: string;
+  value?: string;
+  members?: StorageLayoutEntry[];
+}
+
+export interface StorageLayout {
+  storage: StorageLayoutEntry[];
+  types: Record<string, StorageLayoutType> | null;
+}
+
+export interface StorageLocation {
+  slot: bigint;
+  offset: number;
+  type: string;
 }
@@ -1,5 +1,6 @@
 import { execFile } from "node:child_process";
 import { promisify } from "node:util";
+import path from "node:path";
 import { CommandResult } from "./types.js";
 
 const execFileAsync = promisify(execFile);
@@ -7,15 +8,22 @@ const execFileAsync = promisify(execFile);
 // Root of your Foundry project; override via env if needed
 export const PROJECT_ROOT = process.env.PROJECT_ROOT || process.cwd();
 
+// Project-local directory for state kept by this server (counterexamples, saved chains, ...)
+export const MCP_STATE_DIR = path.join(PROJECT_ROOT, ".foundry-mcp");
+
 // Default private key from environment variable
 export const DEFAULT_PRIVATE_KEY = process.env.FOUNDRY_PRIVATE_KEY;
 
+// JSON output (test results, compiler output) can easily exceed execFile's 1MB default
+const MAX_BUFFER = 64 * 1024 * 1024;
+
 // Helper to run forge commands safely
 export async function runForge(args: string[]): Promise<CommandResult> {
   try {
     const { stdout, stderr } = await execFileAsync("forge", args, {
       cwd: PROJECT_ROOT,
-      env: process.env
+      env: process.env,
+      maxBuffer: MAX_BUFFER
     });
     return { success: true, stdout, stderr };
   } catch (err: any) {
@@ -32,7 +40,8 @@ export async function runCast(args: string[]): Promise<CommandResult> {
   try {
     const { stdout, stderr } = await execFileAsync("cast", args, {
       cwd: PROJECT_ROOT,
-      env: process.env
+      env: process.env,
+      maxBuffer: MAX_BUFFER
     });
     return { success: true, stdout, stderr };
   } catch (err: any) {
@@ -43,3 +52,39 @@ export async function runCast(args: string[]): Promise<CommandResult> {
     };
   }
 }
+
+// Parse JSON printed by `--json` flags, skipping any non-JSON preamble lines
+export function parseJsonOutput<T = any>(output: string): T | null {
+  const trimmed = output.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    const lines = trimmed.split("\n");
+    const start = lines.findIndex(line => line.startsWith("{") || line.startsWith("["));
+    if (start === -1) {
+      return null;
+    }
+    try {
+      return JSON.parse(lines.slice(start).join("\n"));
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Wrap a payload in the JSON text + structuredContent shape every tool returns
+export function jsonResponse(payload: Record<string, any>) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(payload, null, 2)
+      }
+    ],
+    structuredContent: payload
+  };
+}